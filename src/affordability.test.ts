@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { computeAffordability, DEFAULT_FINANCING, welcomeTax } from "./affordability.js";
+import { resolveLocation } from "./geo.js";
+
+test("provincial welcome tax brackets", () => {
+  assert.equal(welcomeTax(50_000), 250);
+  // 58 900 × 0.5% + 235 700 × 1%
+  assert.equal(welcomeTax(294_600), 2652);
+  // ... + 205 400 × 1.5%
+  assert.equal(welcomeTax(500_000), 5733);
+});
+
+test("Montreal addresses use the city's scale", () => {
+  const montreal = computeAffordability(
+    { price: 600_000, location: resolveLocation("1450 Rue Fleury E, Montréal (Ahuntsic-Cartierville)") } as any,
+    DEFAULT_FINANCING,
+  );
+  // 61 500 × 0.5% + 246 300 × 1% + 244 500 × 1.5% + 47 700 × 2%
+  assert.equal(montreal?.welcomeTaxScale, "montreal");
+  assert.equal(montreal?.welcomeTax, 7392);
+
+  const laval = computeAffordability(
+    { price: 600_000, location: resolveLocation("3500, boulevard du Souvenir, Laval") } as any,
+    DEFAULT_FINANCING,
+  );
+  // 58 900 × 0.5% + 235 700 × 1% + 305 400 × 1.5%
+  assert.equal(laval?.welcomeTaxScale, "quebec");
+  assert.equal(laval?.welcomeTax, 7233);
+});
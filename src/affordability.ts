@@ -0,0 +1,233 @@
+import type { ListingAttributes } from "./attributes.js";
+import { classifyPropertyType } from "./filters.js";
+import { foldPlaceName, type ListingLocation } from "./geo.js";
+
+export type FinancingOptions = {
+  /** Annual mortgage rate, in percent. */
+  ratePercent: number;
+  amortizationYears: number;
+  /** Requested down payment in CAD; raised to the legal minimum when lower. */
+  downPayment: number | null;
+  /** Requested down payment as a percent of the price; used when `downPayment` isn't set. */
+  downPaymentPercent: number | null;
+};
+
+export type Affordability = {
+  price: number;
+  /** Transfer duties ("taxe de bienvenue") on the price; the city assessment may be higher. */
+  welcomeTax: number;
+  welcomeTaxScale: "montreal" | "quebec";
+  minimumDownPayment: number;
+  downPayment: number;
+  downPaymentPercent: number;
+  /** True when the requested down payment was below the minimum. */
+  downPaymentRaised: boolean;
+  /** CMHC mortgage insurance premium, added to the loan. */
+  insurancePremium: number;
+  /** Quebec sales tax on the premium, paid in cash at closing. */
+  insurancePremiumTax: number;
+  mortgageAmount: number;
+  ratePercent: number;
+  amortizationYears: number;
+  monthlyMortgage: number;
+  /** Municipal plus school taxes per month; null when the listing doesn't say. */
+  monthlyTaxes: number | null;
+  monthlyCondoFees: number | null;
+  /** Mortgage plus the taxes and condo fees that are known. */
+  monthlyTotal: number;
+  /** Down payment, welcome tax and premium tax; notary and inspection fees aren't included. */
+  cashToClose: number;
+  summary_en: string;
+  summary_fr: string;
+};
+
+export type AffordabilityListing = ListingAttributes & {
+  price: number | null;
+  type: string | null;
+  location: ListingLocation | null;
+};
+
+export const DEFAULT_FINANCING: FinancingOptions = {
+  ratePercent: Number(process.env.LISTING_MORTGAGE_RATE || 4.5),
+  amortizationYears: Number(process.env.LISTING_AMORTIZATION_YEARS || 25),
+  downPayment: null,
+  downPaymentPercent: null,
+};
+
+// ---------- Rules ----------
+// 2025 brackets, indexed every January: [upper bound, rate]. Montreal sets
+// its own thresholds and adds higher rates above the provincial scale.
+const QUEBEC_WELCOME_TAX: Array<[number, number]> = [
+  [58_900, 0.005],
+  [294_600, 0.01],
+  [Infinity, 0.015],
+];
+const MONTREAL_WELCOME_TAX: Array<[number, number]> = [
+  [61_500, 0.005],
+  [307_800, 0.01],
+  [552_300, 0.015],
+  [1_104_700, 0.02],
+  [2_136_500, 0.025],
+  [3_113_000, 0.035],
+  [Infinity, 0.04],
+];
+
+// Insured mortgages are capped at this price; above it the minimum is 20%.
+const INSURED_PRICE_CAP = 1_500_000;
+// CMHC premiums by loan-to-value, as a share of the loan.
+const INSURANCE_PREMIUMS: Array<[number, number]> = [
+  [0.8, 0],
+  [0.85, 0.028],
+  [0.9, 0.031],
+  [0.95, 0.04],
+];
+const LONG_AMORTIZATION_SURCHARGE = 0.002;
+const QUEBEC_PREMIUM_TAX = 0.09;
+
+function round(value: number) {
+  return Math.round(value);
+}
+
+function clampNumber(value: unknown, fallback: number | null, min: number, max: number) {
+  if (value == null || value === "") return fallback;
+  const n = Number(String(value).replace(/[\s $%]/g, "").replace(",", "."));
+  return Number.isFinite(n) ? Math.min(Math.max(n, min), max) : fallback;
+}
+
+/**
+ * Reads `input_variables.financing` on top of the environment defaults, e.g.
+ * `{ "ratePercent": 4.2, "amortizationYears": 30, "downPaymentPercent": 10 }`.
+ * `rate` works for `ratePercent`. Unknown keys are ignored and values clamped.
+ */
+export function resolveFinancing(input: unknown): FinancingOptions {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  return {
+    ratePercent: clampNumber(raw.ratePercent ?? raw.rate, DEFAULT_FINANCING.ratePercent, 0, 25) as number,
+    amortizationYears: Math.round(clampNumber(raw.amortizationYears, DEFAULT_FINANCING.amortizationYears, 5, 30) as number),
+    downPayment: clampNumber(raw.downPayment, DEFAULT_FINANCING.downPayment, 0, 100_000_000),
+    downPaymentPercent: clampNumber(raw.downPaymentPercent, DEFAULT_FINANCING.downPaymentPercent, 0, 100),
+  };
+}
+
+export function welcomeTax(price: number, brackets: Array<[number, number]> = QUEBEC_WELCOME_TAX) {
+  let tax = 0;
+  let lower = 0;
+  for (const [upper, rate] of brackets) {
+    if (price <= lower) break;
+    tax += (Math.min(price, upper) - lower) * rate;
+    lower = upper;
+  }
+  return round(tax);
+}
+
+/** 5% of the first $500,000 and 10% of the rest; 20% from the insured price cap up. */
+export function minimumDownPayment(price: number) {
+  if (price >= INSURED_PRICE_CAP) return round(price * 0.2);
+  return round(Math.min(price, 500_000) * 0.05 + Math.max(0, price - 500_000) * 0.1);
+}
+
+function insurancePremiumRate(loanToValue: number, amortizationYears: number) {
+  const rate = INSURANCE_PREMIUMS.find(([limit]) => loanToValue <= limit + 1e-9)?.[1] ?? INSURANCE_PREMIUMS[3][1];
+  return rate > 0 && amortizationYears > 25 ? rate + LONG_AMORTIZATION_SURCHARGE : rate;
+}
+
+/** Canadian fixed-rate mortgages compound semi-annually, not monthly. */
+export function monthlyMortgagePayment(principal: number, ratePercent: number, amortizationYears: number) {
+  const months = amortizationYears * 12;
+  if (principal <= 0) return 0;
+  if (ratePercent <= 0) return principal / months;
+  const monthlyRate = Math.pow(1 + ratePercent / 100 / 2, 1 / 6) - 1;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+function inMontreal(location: ListingLocation | null) {
+  return location?.city ? foldPlaceName(location.city) === "montreal" : false;
+}
+
+// ---------- Summaries ----------
+function money(value: number, locale: "en-CA" | "fr-CA") {
+  return new Intl.NumberFormat(locale, { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(value);
+}
+
+function percent(value: number, locale: "en-CA" | "fr-CA") {
+  return new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 2 }).format(value / 100);
+}
+
+function summarize(block: Omit<Affordability, "summary_en" | "summary_fr">, condoFeesMissing: boolean) {
+  const en: string[] = [`mortgage ${money(block.monthlyMortgage, "en-CA")} (${block.amortizationYears} years at ${percent(block.ratePercent, "en-CA")})`];
+  const fr: string[] = [`hypothèque ${money(block.monthlyMortgage, "fr-CA")} (${block.amortizationYears} ans à ${percent(block.ratePercent, "fr-CA")})`];
+  if (block.monthlyTaxes != null) {
+    en.push(`taxes ${money(block.monthlyTaxes, "en-CA")}`);
+    fr.push(`taxes ${money(block.monthlyTaxes, "fr-CA")}`);
+  } else {
+    en.push("taxes not listed");
+    fr.push("taxes non indiquées");
+  }
+  if (block.monthlyCondoFees != null) {
+    en.push(`condo fees ${money(block.monthlyCondoFees, "en-CA")}`);
+    fr.push(`frais de copropriété ${money(block.monthlyCondoFees, "fr-CA")}`);
+  } else if (condoFeesMissing) {
+    en.push("condo fees not listed");
+    fr.push("frais de copropriété non indiqués");
+  }
+
+  let summaryEn =
+    `About ${money(block.monthlyTotal, "en-CA")}/month: ${en.join(", ")}. ` +
+    `Down payment ${money(block.downPayment, "en-CA")} (${percent(block.downPaymentPercent, "en-CA")}) and welcome tax ${money(block.welcomeTax, "en-CA")}`;
+  let summaryFr =
+    `Environ ${money(block.monthlyTotal, "fr-CA")}/mois : ${fr.join(", ")}. ` +
+    `Mise de fonds de ${money(block.downPayment, "fr-CA")} (${percent(block.downPaymentPercent, "fr-CA")}) et taxe de bienvenue de ${money(block.welcomeTax, "fr-CA")}`;
+  if (block.insurancePremium > 0) {
+    summaryEn += `; a ${money(block.insurancePremium, "en-CA")} CMHC premium is added to the loan`;
+    summaryFr += ` ; une prime SCHL de ${money(block.insurancePremium, "fr-CA")} s'ajoute au prêt`;
+  }
+  return { summary_en: `${summaryEn}.`, summary_fr: `${summaryFr}.` };
+}
+
+// ---------- Calculator ----------
+/**
+ * What buying the listing costs up front and per month under `financing`.
+ * Null when the listing has no price.
+ */
+export function computeAffordability(listing: AffordabilityListing, financing: FinancingOptions): Affordability | null {
+  const price = listing.price;
+  if (price == null || !(price > 0)) return null;
+
+  const montreal = inMontreal(listing.location);
+  const minimum = minimumDownPayment(price);
+  const requested =
+    financing.downPayment ?? (financing.downPaymentPercent != null ? price * (financing.downPaymentPercent / 100) : minimum);
+  const downPayment = round(Math.min(price, Math.max(requested, minimum)));
+  const loan = price - downPayment;
+  const premium = price < INSURED_PRICE_CAP ? round(loan * insurancePremiumRate(loan / price, financing.amortizationYears)) : 0;
+  const mortgageAmount = loan + premium;
+  const monthlyMortgage = round(monthlyMortgagePayment(mortgageAmount, financing.ratePercent, financing.amortizationYears));
+
+  const taxes = [listing.municipalTaxAnnual, listing.schoolTaxAnnual].filter((tax): tax is number => tax != null);
+  const monthlyTaxes = taxes.length ? round(taxes.reduce((sum, tax) => sum + tax, 0) / 12) : null;
+  const monthlyCondoFees = listing.condoFeesMonthly != null ? round(listing.condoFeesMonthly) : null;
+  const tax = welcomeTax(price, montreal ? MONTREAL_WELCOME_TAX : QUEBEC_WELCOME_TAX);
+  const premiumTax = round(premium * QUEBEC_PREMIUM_TAX);
+
+  const block = {
+    price,
+    welcomeTax: tax,
+    welcomeTaxScale: montreal ? ("montreal" as const) : ("quebec" as const),
+    minimumDownPayment: minimum,
+    downPayment,
+    downPaymentPercent: Math.round((downPayment / price) * 10_000) / 100,
+    downPaymentRaised: requested < minimum && (financing.downPayment != null || financing.downPaymentPercent != null),
+    insurancePremium: premium,
+    insurancePremiumTax: premiumTax,
+    mortgageAmount,
+    ratePercent: financing.ratePercent,
+    amortizationYears: financing.amortizationYears,
+    monthlyMortgage,
+    monthlyTaxes,
+    monthlyCondoFees,
+    monthlyTotal: monthlyMortgage + (monthlyTaxes ?? 0) + (monthlyCondoFees ?? 0),
+    cashToClose: downPayment + tax + premiumTax,
+  };
+  const condoFeesMissing = monthlyCondoFees == null && classifyPropertyType(listing.type) === "condo";
+  return { ...block, ...summarize(block, condoFeesMissing) };
+}
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseArea, parseFee, parseMoney, parseParking } from "./attributes.js";
+
+test("parseMoney", () => {
+  assert.equal(parseMoney("1 250 000 $"), 1_250_000);
+  assert.equal(parseMoney("$1,250,000"), 1_250_000);
+  assert.equal(parseMoney("Taxes municipales (2024) 3 250 $"), 3250);
+  assert.equal(parseMoney("1,2 M$"), 1_200_000);
+  assert.equal(parseMoney("450k"), 450_000);
+  assert.equal(parseMoney("Prix sur demande"), null);
+});
+
+test("parseFee", () => {
+  assert.equal(parseFee("310 $ / mois", "year", "month"), 310);
+  assert.equal(parseFee("3 910 $ / an", "month", "month"), 325.83);
+  assert.equal(parseFee("2 640 $", "year", "month"), 220);
+  assert.equal(parseFee("$265 Monthly", "year", "year"), 3180);
+  assert.equal(parseFee("n/d", "year", "month"), null);
+});
+
+test("parseArea", () => {
+  assert.deepEqual(parseArea("1 050 pc"), { sqft: 1050, m2: 98 });
+  assert.deepEqual(parseArea("106,8 m²"), { sqft: 1150, m2: 107 });
+  assert.deepEqual(parseArea("50 x 110 pi"), { sqft: 5500, m2: 511 });
+  assert.deepEqual(parseArea("2 acres"), { sqft: 87_120, m2: 8094 });
+  assert.deepEqual(parseArea(100, "m2"), { sqft: 1076, m2: 100 });
+  assert.equal(parseArea("à venir"), null);
+});
+
+test("parseParking sums every count", () => {
+  assert.equal(parseParking("Garage (1), Allée (2)"), 3);
+  assert.equal(parseParking("1 garage, 2 allée"), 3);
+  assert.equal(parseParking("Stationnement total 2"), 2);
+  assert.equal(parseParking("Aucun"), 0);
+  assert.equal(parseParking("Garage double"), null);
+});
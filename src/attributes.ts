@@ -0,0 +1,323 @@
+/**
+ * Listing facts beyond price and rooms, normalized to one unit each: taxes per
+ * year, condo fees per month, areas in square feet and square metres.
+ */
+export type ListingAttributes = {
+  municipalTaxAnnual: number | null;
+  schoolTaxAnnual: number | null;
+  condoFeesMonthly: number | null;
+  livingAreaSqft: number | null;
+  livingAreaM2: number | null;
+  lotSizeSqft: number | null;
+  lotSizeM2: number | null;
+  yearBuilt: number | null;
+  parkingSpaces: number | null;
+  /** Date the listing went on the market, YYYY-MM-DD. */
+  listedAt: string | null;
+  daysOnMarket: number | null;
+};
+
+export type FeePeriod = "month" | "year";
+export type AreaUnit = "sqft" | "m2";
+
+const SQFT_PER_M2 = 10.7639;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fold(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u00a0\u202f]/g, " ")
+    .toLowerCase();
+}
+
+// ---------- Numbers ----------
+// Space-grouped thousands ("1 250 000,50") first, then any run of digits,
+// commas and dots ending in a digit.
+const NUMBER_SOURCE = "\\d{1,3}(?: \\d{3})+(?:,\\d+)?|\\d[\\d,.]*\\d|\\d";
+
+function readNumberToken(token: string) {
+  const compact = token.replace(/ /g, "");
+  const lastComma = compact.lastIndexOf(",");
+  const lastDot = compact.lastIndexOf(".");
+  let decimal: string | null = null;
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? "," : ".";
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? "," : ".";
+    const groups = compact.split(separator);
+    // "1,250" and "1.250.000" are grouped thousands; "1,5" and "1.25" are decimals.
+    const grouped = groups.length > 2 || (separator === "," && groups[1].length === 3);
+    decimal = grouped ? null : separator;
+  }
+  const thousands = decimal === "," ? /\./g : decimal === "." ? /,/g : /[,.]/g;
+  const n = Number(compact.replace(thousands, "").replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Reads the first number in French or English notation: "1 250 000 $",
+ * "$1,250,000", "1 250,50" and "1,250.50" all work. A comma followed by
+ * exactly three digits is read as a thousands separator.
+ */
+export function parseLocaleNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.replace(/[\u00a0\u202f]/g, " ").match(new RegExp(NUMBER_SOURCE));
+  return match ? readNumberToken(match[0]) : null;
+}
+
+/**
+ * Reads an amount in dollars. The number next to a "$" or "CAD" wins, so
+ * "Taxes municipales (2024) 3 250 $" gives 3250; "1,2 M$" and "450k" are
+ * scaled.
+ */
+export function parseMoney(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const text = value.replace(/[\u00a0\u202f]/g, " ");
+  const number = `(${NUMBER_SOURCE})(\\s*(?:k|m(?:illions?)?)\\b)?`;
+  const match =
+    text.match(new RegExp(`\\$\\s*${number}`, "i")) ??
+    text.match(new RegExp(`${number}\\s*(?:\\$|cad\\b)`, "i")) ??
+    text.match(new RegExp(number, "i"));
+  if (!match) return null;
+  const amount = readNumberToken(match[1]);
+  if (amount == null) return null;
+  const suffix = (match[2] ?? "").trim().toLowerCase();
+  if (suffix === "k") return Math.round(amount * 1_000);
+  if (suffix.startsWith("m")) return Math.round(amount * 1_000_000);
+  return amount;
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// ---------- Fees and taxes ----------
+const MONTHLY = /(?:\/\s*m(?:ois|o|onth)?\b|\b(?:mois|month|monthly|mensuel(?:le)?s?|par mois|per month)\b)/;
+const YEARLY = /(?:\/\s*(?:an|a|y|yr|year)\b|\b(?:an|annee|year|yearly|annual|annually|annuel(?:le)?s?|par annee)\b)/;
+
+export function detectFeePeriod(value: string): FeePeriod | null {
+  const folded = fold(value);
+  if (MONTHLY.test(folded)) return "month";
+  if (YEARLY.test(folded)) return "year";
+  return null;
+}
+
+/**
+ * An amount converted to `period`. The period written next to it ("/ an",
+ * "per month", "mensuels") wins over `statedPeriod`, which applies to bare
+ * numbers.
+ */
+export function parseFee(value: unknown, statedPeriod: FeePeriod, period: FeePeriod): number | null {
+  const amount = parseMoney(value);
+  if (amount == null || amount < 0) return null;
+  const from = (typeof value === "string" ? detectFeePeriod(value) : null) ?? statedPeriod;
+  if (from === period) return roundCents(amount);
+  return roundCents(period === "month" ? amount / 12 : amount * 12);
+}
+
+// ---------- Areas ----------
+// Multipliers to square feet.
+const AREA_UNITS: Array<[RegExp, number]> = [
+  [/^(?:pi(?:eds?)?\s*(?:²|2|carres?)|p\.?\s?c\.?(?![a-z])|sq\.?\s*f(?:ee|oo)?t|sqft|ft²|ft2|square\s+f(?:ee|oo)t)/, 1],
+  [/^(?:m²|m2|metres?\s+carres?|sq\.?\s*m\b|square\s+met(?:er|re)s?)/, SQFT_PER_M2],
+  [/^(?:acres?|ac)\b/, 43_560],
+  [/^(?:hectares?|ha)\b/, 10_000 * SQFT_PER_M2],
+];
+// Multipliers to feet, for "25 x 100 pi" lot dimensions.
+const LENGTH_UNITS: Array<[RegExp, number]> = [
+  [/^(?:pi(?:eds?)?|ft|feet|foot|')(?![a-z²])/, 1],
+  [/^(?:m|metres?|meters?)(?![a-z²])/, Math.sqrt(SQFT_PER_M2)],
+];
+
+function unitFactor(rest: string, units: Array<[RegExp, number]>) {
+  const trimmed = rest.trimStart();
+  return units.find(([pattern]) => pattern.test(trimmed))?.[1] ?? null;
+}
+
+/**
+ * Reads an area and returns it in both units, rounded to whole numbers.
+ * Handles "1 150 pi²", "106,8 m²", "1,200 sq ft", "2 acres" and lot
+ * dimensions such as "25 X 100 pi" or "7,62 x 30,48 m". A number with no unit
+ * is taken to be in `statedUnit`.
+ */
+export function parseArea(value: unknown, statedUnit: AreaUnit = "sqft"): { sqft: number; m2: number } | null {
+  const statedFactor = statedUnit === "m2" ? SQFT_PER_M2 : 1;
+  let sqft: number | null = null;
+  if (typeof value === "number") {
+    sqft = Number.isFinite(value) ? value * statedFactor : null;
+  } else if (typeof value === "string") {
+    const text = fold(value);
+    const dimensions = text.match(new RegExp(`(${NUMBER_SOURCE})\\s*(?:[a-z']*\\s*)?[x×]\\s*(${NUMBER_SOURCE})(.*)$`));
+    if (dimensions) {
+      const width = readNumberToken(dimensions[1]);
+      const depth = readNumberToken(dimensions[2]);
+      const lengthFactor = unitFactor(dimensions[3], LENGTH_UNITS) ?? Math.sqrt(statedFactor);
+      if (width != null && depth != null) sqft = width * depth * lengthFactor * lengthFactor;
+    } else {
+      const match = text.match(new RegExp(`(${NUMBER_SOURCE})(.*)$`));
+      const amount = match ? readNumberToken(match[1]) : null;
+      if (amount != null) sqft = amount * (unitFactor(match![2], AREA_UNITS) ?? statedFactor);
+    }
+  }
+  if (sqft == null || sqft <= 0) return null;
+  return { sqft: Math.round(sqft), m2: Math.round(sqft / SQFT_PER_M2) };
+}
+
+// ---------- Other facts ----------
+export function parseYearBuilt(value: unknown, now = new Date()): number | null {
+  const text = typeof value === "number" ? String(value) : typeof value === "string" ? value : "";
+  const match = text.match(/\b(1[6-9]\d{2}|2\d{3})\b/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  // New construction is often listed a year or two before it's finished.
+  return year <= now.getFullYear() + 2 ? year : null;
+}
+
+/**
+ * Total spaces: "Garage (1), Allée (2)" and "1 garage, 2 allée" give 3;
+ * "Aucun" / "None" gives 0.
+ */
+export function parseParking(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  if (typeof value !== "string") return null;
+  const folded = fold(value);
+  const counts = [...folded.matchAll(/\d+/g)].map((match) => Number(match[0]));
+  if (counts.length) return counts.reduce((sum, count) => sum + count, 0);
+  return /\b(?:aucun|aucune|none|no)\b/.test(folded) ? 0 : null;
+}
+
+const MONTHS: Array<[RegExp, number]> = [
+  [/^jan/, 1], [/^(?:feb|fev)/, 2], [/^mar/, 3], [/^(?:apr|avr)/, 4], [/^(?:may|mai)/, 5], [/^(?:jun|juin)/, 6],
+  [/^(?:jul|juil)/, 7], [/^(?:aug|aou)/, 8], [/^sep/, 9], [/^oct/, 10], [/^nov/, 11], [/^dec/, 12],
+];
+
+function isoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function monthNumber(name: string) {
+  return MONTHS.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+/**
+ * Reads a listing date as YYYY-MM-DD: ISO dates, "5 mars 2024", "1er juin
+ * 2024", "March 5, 2024", or "il y a 12 jours" / "12 days ago" counted back
+ * from `now`. Dates in the future are ignored.
+ */
+export function parseListedAt(value: unknown, now = new Date()): string | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  const text = fold(value);
+  let date: string | null = null;
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})/);
+  const dayFirst = text.match(/\b(\d{1,2})(?:er|st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})\b/);
+  const monthFirst = text.match(/\b([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  const ago = text.match(/\b(\d+)\s*(?:jours?|days?)\b/);
+  if (iso) {
+    date = isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  } else if (dayFirst && monthNumber(dayFirst[2])) {
+    date = isoDate(Number(dayFirst[3]), monthNumber(dayFirst[2])!, Number(dayFirst[1]));
+  } else if (monthFirst && monthNumber(monthFirst[1])) {
+    date = isoDate(Number(monthFirst[3]), monthNumber(monthFirst[1])!, Number(monthFirst[2]));
+  } else if (ago) {
+    date = new Date(now.getTime() - Number(ago[1]) * DAY_MS).toISOString().slice(0, 10);
+  }
+  if (!date || new Date(date).getTime() > now.getTime()) return null;
+  return date;
+}
+
+// ---------- Listings ----------
+function firstValue(record: Record<string, any>, keys: string[]) {
+  for (const key of keys) {
+    const value = record[key];
+    if (value != null && value !== "") return { key, value };
+  }
+  return null;
+}
+
+function feeFrom(record: Record<string, any>, keys: Array<[string, FeePeriod]>, period: FeePeriod) {
+  const found = firstValue(record, keys.map(([key]) => key));
+  if (!found) return null;
+  return parseFee(found.value, keys.find(([key]) => key === found.key)![1], period);
+}
+
+function areaFrom(record: Record<string, any>, keys: Array<[string, AreaUnit]>) {
+  const found = firstValue(record, keys.map(([key]) => key));
+  if (!found) return null;
+  return parseArea(found.value, keys.find(([key]) => key === found.key)![1]);
+}
+
+/**
+ * Normalizes the extended facts of a raw listing. Reads the agent's
+ * snake_case fields, camelCase variants, and this type's own fields so
+ * listings that were already normalized pass through unchanged.
+ */
+export function normalizeListingAttributes(record: Record<string, any>, now = new Date()): ListingAttributes {
+  const livingArea = areaFrom(record, [
+    ["livingAreaSqft", "sqft"],
+    ["livingAreaM2", "m2"],
+    ["living_area", "sqft"],
+    ["livingArea", "sqft"],
+  ]);
+  const lotSize = areaFrom(record, [
+    ["lotSizeSqft", "sqft"],
+    ["lotSizeM2", "m2"],
+    ["lot_size", "sqft"],
+    ["lotSize", "sqft"],
+  ]);
+  const listedAt = parseListedAt(firstValue(record, ["listedAt", "listed_at", "listingDate", "datePosted"])?.value, now);
+  const statedDays = parseLocaleNumber(firstValue(record, ["days_on_market", "daysOnMarket"])?.value);
+  return {
+    municipalTaxAnnual: feeFrom(
+      record,
+      [["municipalTaxAnnual", "year"], ["municipal_tax", "year"], ["municipalTax", "year"], ["municipalTaxes", "year"]],
+      "year",
+    ),
+    schoolTaxAnnual: feeFrom(
+      record,
+      [["schoolTaxAnnual", "year"], ["school_tax", "year"], ["schoolTax", "year"], ["schoolTaxes", "year"]],
+      "year",
+    ),
+    condoFeesMonthly: feeFrom(
+      record,
+      [["condoFeesMonthly", "month"], ["condo_fees", "month"], ["condoFees", "month"]],
+      "month",
+    ),
+    livingAreaSqft: livingArea?.sqft ?? null,
+    livingAreaM2: livingArea?.m2 ?? null,
+    lotSizeSqft: lotSize?.sqft ?? null,
+    lotSizeM2: lotSize?.m2 ?? null,
+    yearBuilt: parseYearBuilt(firstValue(record, ["yearBuilt", "year_built"])?.value, now),
+    parkingSpaces: parseParking(firstValue(record, ["parkingSpaces", "parking"])?.value),
+    listedAt,
+    daysOnMarket: listedAt
+      ? Math.max(0, Math.floor((now.getTime() - new Date(listedAt).getTime()) / DAY_MS))
+      : statedDays != null && statedDays >= 0
+        ? Math.round(statedDays)
+        : null,
+  };
+}
+
+/** Field-by-field merge; the listing date and its day count come from the same record. */
+export function mergeListingAttributes(primary: ListingAttributes, secondary: ListingAttributes): ListingAttributes {
+  const dated = primary.listedAt || (primary.daysOnMarket != null && !secondary.listedAt) ? primary : secondary;
+  const living = primary.livingAreaSqft != null ? primary : secondary;
+  const lot = primary.lotSizeSqft != null ? primary : secondary;
+  return {
+    municipalTaxAnnual: primary.municipalTaxAnnual ?? secondary.municipalTaxAnnual,
+    schoolTaxAnnual: primary.schoolTaxAnnual ?? secondary.schoolTaxAnnual,
+    condoFeesMonthly: primary.condoFeesMonthly ?? secondary.condoFeesMonthly,
+    livingAreaSqft: living.livingAreaSqft,
+    livingAreaM2: living.livingAreaM2,
+    lotSizeSqft: lot.lotSizeSqft,
+    lotSizeM2: lot.lotSizeM2,
+    yearBuilt: primary.yearBuilt ?? secondary.yearBuilt,
+    parkingSpaces: primary.parkingSpaces ?? secondary.parkingSpaces,
+    listedAt: dated.listedAt,
+    daysOnMarket: dated.daysOnMarket,
+  };
+}
@@ -0,0 +1,237 @@
+import { readFile } from "fs/promises";
+import { createJsonFileStore } from "./jsonFile.js";
+import type { LlmUsage } from "./llm.js";
+
+const KEYS_PATH = process.env.LISTING_API_KEYS_PATH || "config/api-keys.json";
+const USAGE_PATH = process.env.LISTING_USAGE_PATH || "data/usage.json";
+const AUTH_DISABLED = process.env.LISTING_AUTH_DISABLED === "true";
+const KEYS_RELOAD_MS = 30_000;
+const USAGE_HISTORY_DAYS = 31;
+
+export type ApiClient = {
+  name: string;
+  /** Plain key, or `keySha256` (hex) to keep the secret out of the file. */
+  key?: string;
+  keySha256?: string;
+  /** 0 or missing = unlimited. */
+  requestsPerMinute?: number;
+  requestsPerDay?: number;
+  tokensPerDay?: number;
+};
+
+type KeysFile = {
+  keys: ApiClient[];
+};
+
+type DailyUsage = {
+  requests: number;
+  workflowRuns: number;
+  tokens: number;
+  estimatedCostUsd: number;
+};
+
+type UsageFile = {
+  version: 1;
+  clients: Record<string, Record<string, DailyUsage>>;
+};
+
+export type AuthResult =
+  | { ok: true; client: ApiClient | null }
+  | { ok: false; status: 401 | 429; error: string; retryAfterSeconds?: number };
+
+export type AuthOptions = {
+  /** The route runs the agent, so the token budget applies. */
+  spendsTokens?: boolean;
+};
+
+const usageFile = createJsonFileStore<UsageFile>(
+  USAGE_PATH,
+  () => ({ version: 1, clients: {} }),
+  (data) => Boolean(data?.clients),
+);
+
+// ---------- Keys ----------
+let keysCache: { loadedAt: number; clients: ApiClient[]; error: string | null } | null = null;
+
+async function loadClients() {
+  if (keysCache && Date.now() - keysCache.loadedAt < KEYS_RELOAD_MS) return keysCache;
+  let clients: ApiClient[] = [];
+  let error: string | null = null;
+  try {
+    const parsed = JSON.parse(await readFile(KEYS_PATH, "utf8")) as KeysFile;
+    clients = (Array.isArray(parsed?.keys) ? parsed.keys : []).filter(
+      (client) => client && typeof client.name === "string" && (client.key || client.keySha256),
+    );
+  } catch (err: any) {
+    error = err?.code === "ENOENT" ? `API key file ${KEYS_PATH} not found` : `Invalid API key file: ${String(err?.message || err)}`;
+  }
+  keysCache = { loadedAt: Date.now(), clients, error };
+  return keysCache;
+}
+
+async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Compares every byte so the time taken doesn't reveal how much of a key matched.
+function safeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i += 1) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+export function apiKeyFromHeaders(headers: Record<string, string | string[] | undefined>) {
+  const header = (name: string) => {
+    const value = headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || null;
+  };
+  const bearer = header("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return bearer?.trim() || header("x-api-key");
+}
+
+// ---------- Rate limiting ----------
+const recentRequests = new Map<string, number[]>();
+
+function dayKey(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now = new Date()) {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(1, Math.ceil((midnight - now.getTime()) / 1000));
+}
+
+function emptyDay(): DailyUsage {
+  return { requests: 0, workflowRuns: 0, tokens: 0, estimatedCostUsd: 0 };
+}
+
+function pruneHistory(days: Record<string, DailyUsage>, now = new Date()) {
+  const cutoff = dayKey(new Date(now.getTime() - USAGE_HISTORY_DAYS * 24 * 60 * 60 * 1000));
+  for (const day of Object.keys(days)) if (day < cutoff) delete days[day];
+}
+
+function dailyLimitExceeded(client: ApiClient, usage: DailyUsage, options: AuthOptions) {
+  const perDay = Number(client.requestsPerDay ?? 0);
+  if (perDay > 0 && usage.requests >= perDay) return `Daily quota exceeded: ${perDay} requests`;
+  const tokensPerDay = Number(client.tokensPerDay ?? 0);
+  if (options.spendsTokens && tokensPerDay > 0 && usage.tokens >= tokensPerDay) {
+    return `Daily token budget exceeded: ${tokensPerDay} tokens`;
+  }
+  return null;
+}
+
+/**
+ * Checks the request's API key (`Authorization: Bearer <key>` or `X-API-Key`)
+ * against the key file and the client's quotas, and counts the request.
+ * With `LISTING_AUTH_DISABLED=true` every request passes as an anonymous client.
+ */
+export async function authenticateRequest(
+  headers: Record<string, string | string[] | undefined>,
+  options: AuthOptions = {},
+): Promise<AuthResult> {
+  if (AUTH_DISABLED) return { ok: true, client: null };
+
+  const presented = apiKeyFromHeaders(headers);
+  if (!presented) return { ok: false, status: 401, error: "API key required (Authorization: Bearer <key> or X-API-Key)" };
+
+  const { clients, error } = await loadClients();
+  if (!clients.length) {
+    console.error(error ?? "No API keys configured");
+    return { ok: false, status: 401, error: "Invalid API key" };
+  }
+  const presentedHash = await sha256Hex(presented);
+  const client = clients.find((candidate) =>
+    candidate.keySha256 ? safeEqual(candidate.keySha256.toLowerCase(), presentedHash) : safeEqual(candidate.key ?? "", presented),
+  );
+  if (!client) return { ok: false, status: 401, error: "Invalid API key" };
+
+  const now = Date.now();
+  const perMinute = Number(client.requestsPerMinute ?? 0);
+  const window = (recentRequests.get(client.name) ?? []).filter((at) => now - at < 60_000);
+  if (perMinute > 0 && window.length >= perMinute) {
+    recentRequests.set(client.name, window);
+    return {
+      ok: false,
+      status: 429,
+      error: `Rate limit exceeded: ${perMinute} requests per minute`,
+      retryAfterSeconds: Math.max(1, Math.ceil((window[0] + 60_000 - now) / 1000)),
+    };
+  }
+
+  // Claimed before the daily check awaits, so concurrent requests can't all
+  // pass the per-minute check; given back if the daily quota denies it.
+  window.push(now);
+  recentRequests.set(client.name, window);
+
+  const today = dayKey();
+  const denied = await usageFile.update((data): AuthResult | null => {
+    const days = (data.clients[client.name] ??= {});
+    const usage = (days[today] ??= emptyDay());
+    const exceeded = dailyLimitExceeded(client, usage, options);
+    if (exceeded) return { ok: false, status: 429, error: exceeded, retryAfterSeconds: secondsUntilUtcMidnight() };
+    usage.requests += 1;
+    pruneHistory(days);
+    return null;
+  });
+  if (denied) {
+    const current = recentRequests.get(client.name) ?? [];
+    const index = current.indexOf(now);
+    if (index >= 0) current.splice(index, 1);
+    return denied;
+  }
+  return { ok: true, client };
+}
+
+/** The configured client called `name`; null once its key has been removed. */
+export async function findClient(name: string) {
+  const { clients } = await loadClients();
+  return clients.find((client) => client.name === name) ?? null;
+}
+
+/**
+ * Why the client can't start another workflow run today, or null while its
+ * daily request and token limits have room. Nothing is counted.
+ */
+export async function dailyQuotaExceeded(client: ApiClient) {
+  const today = dayKey();
+  const usage = await usageFile.read((data) => data.clients[client.name]?.[today] ?? emptyDay());
+  return dailyLimitExceeded(client, usage, { spendsTokens: true });
+}
+
+/** Adds a finished workflow run's LLM usage to the client's daily totals. */
+export async function recordClientUsage(client: ApiClient | null, usage: LlmUsage | null | undefined) {
+  if (!client) return;
+  const today = dayKey();
+  await usageFile.update((data) => {
+    const days = (data.clients[client.name] ??= {});
+    const day = (days[today] ??= emptyDay());
+    day.workflowRuns += 1;
+    day.tokens += usage?.totalTokens ?? 0;
+    day.estimatedCostUsd = Math.round((day.estimatedCostUsd + (usage?.estimatedCostUsd ?? 0)) * 1e6) / 1e6;
+  });
+}
+
+/** What `GET /usage` returns: today's totals against the limits, plus recent days. */
+export async function getClientUsage(client: ApiClient) {
+  const today = dayKey();
+  const days = await usageFile.read((data) => ({ ...(data.clients[client.name] ?? {}) }));
+  const window = (recentRequests.get(client.name) ?? []).filter((at) => Date.now() - at < 60_000);
+  const current = days[today] ?? emptyDay();
+  return {
+    client: client.name,
+    limits: {
+      requestsPerMinute: client.requestsPerMinute || null,
+      requestsPerDay: client.requestsPerDay || null,
+      tokensPerDay: client.tokensPerDay || null,
+    },
+    lastMinute: { requests: window.length },
+    today: { date: today, ...current },
+    resetsInSeconds: secondsUntilUtcMidnight(),
+    history: Object.entries(days)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, usage]) => ({ date, ...usage })),
+  };
+}
@@ -0,0 +1,134 @@
+export type AgentBudget = {
+  /** Model turns before a final answer is forced. */
+  maxSteps: number;
+  /** Wall-clock limit for the tool loop, in milliseconds. */
+  maxDurationMs: number;
+  /** Pages fetched with fetch_listing_page. */
+  maxPages: number;
+  /** Prompt + completion tokens across the run; 0 means unlimited. */
+  maxTokens: number;
+  /** Tool calls from one model turn that run at the same time. */
+  concurrency: number;
+};
+
+export type BudgetLimit = "steps" | "time" | "pages" | "tokens";
+
+export type BudgetReport = {
+  limits: AgentBudget;
+  used: {
+    steps: number;
+    durationMs: number;
+    pages: number;
+    tokens: number;
+  };
+  /** Which budget ran out first, if any. */
+  exhausted: BudgetLimit | null;
+  /** True when the final answer came from a forced synthesis turn. */
+  synthesisForced: boolean;
+};
+
+export const DEFAULT_AGENT_BUDGET: AgentBudget = {
+  maxSteps: Number(process.env.AGENT_MAX_STEPS || 6),
+  maxDurationMs: Number(process.env.AGENT_MAX_DURATION_MS || 120_000),
+  maxPages: Number(process.env.AGENT_MAX_PAGES || 12),
+  maxTokens: Number(process.env.AGENT_MAX_TOKENS || 0),
+  concurrency: Number(process.env.AGENT_TOOL_CONCURRENCY || 4),
+};
+
+// Per-request budgets can lower the defaults freely but not exceed these.
+const BUDGET_CEILINGS: AgentBudget = {
+  maxSteps: 20,
+  maxDurationMs: 10 * 60_000,
+  maxPages: 60,
+  maxTokens: 2_000_000,
+  concurrency: 8,
+};
+
+function clamp(value: unknown, fallback: number, ceiling: number, min: number) {
+  const n = Math.floor(Number(value));
+  if (value == null || value === "" || !Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(n, min), ceiling);
+}
+
+/**
+ * Reads a per-request budget (`input_variables.budget`) on top of the
+ * environment defaults. Unknown keys are ignored and values are clamped.
+ */
+export function resolveAgentBudget(input: unknown): AgentBudget {
+  const raw = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  const maxDurationMs = raw.maxDurationMs ?? (raw.maxSeconds != null ? Number(raw.maxSeconds) * 1000 : undefined);
+  return {
+    maxSteps: clamp(raw.maxSteps, DEFAULT_AGENT_BUDGET.maxSteps, BUDGET_CEILINGS.maxSteps, 1),
+    maxDurationMs: clamp(maxDurationMs, DEFAULT_AGENT_BUDGET.maxDurationMs, BUDGET_CEILINGS.maxDurationMs, 1_000),
+    maxPages: clamp(raw.maxPages, DEFAULT_AGENT_BUDGET.maxPages, BUDGET_CEILINGS.maxPages, 0),
+    maxTokens: clamp(raw.maxTokens, DEFAULT_AGENT_BUDGET.maxTokens, BUDGET_CEILINGS.maxTokens, 0),
+    concurrency: clamp(raw.concurrency, DEFAULT_AGENT_BUDGET.concurrency, BUDGET_CEILINGS.concurrency, 1),
+  };
+}
+
+/** Tracks usage against a budget for one agent run. */
+export function createBudgetTracker(limits: AgentBudget, now: () => number = Date.now) {
+  const startedAt = now();
+  const used = { steps: 0, pages: 0, tokens: 0 };
+  let exhausted: BudgetLimit | null = null;
+  let synthesisForced = false;
+
+  function check(): BudgetLimit | null {
+    if (exhausted) return exhausted;
+    if (used.steps >= limits.maxSteps) exhausted = "steps";
+    else if (now() - startedAt >= limits.maxDurationMs) exhausted = "time";
+    else if (limits.maxTokens > 0 && used.tokens >= limits.maxTokens) exhausted = "tokens";
+    return exhausted;
+  }
+
+  return {
+    limits,
+    check,
+    step() {
+      used.steps += 1;
+      return used.steps;
+    },
+    /** Reserves one page fetch; false when the page budget is spent. */
+    takePage() {
+      if (used.pages >= limits.maxPages) {
+        exhausted ??= "pages";
+        return false;
+      }
+      used.pages += 1;
+      return true;
+    },
+    timeLeft() {
+      return now() - startedAt < limits.maxDurationMs;
+    },
+    setTokens(tokens: number) {
+      used.tokens = tokens;
+    },
+    forceSynthesis() {
+      synthesisForced = true;
+    },
+    report(): BudgetReport {
+      return {
+        limits,
+        used: { ...used, durationMs: now() - startedAt },
+        exhausted,
+        synthesisForced,
+      };
+    },
+  };
+}
+
+export type BudgetTracker = ReturnType<typeof createBudgetTracker>;
+
+/** Runs `worker` over `items` with at most `limit` in flight; results keep input order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>) {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,136 @@
+import { createJsonFileStore, type JsonFileStore } from "./jsonFile.js";
+
+export type CassetteMode = "off" | "record" | "replay";
+export type InteractionKind = "llm" | "search" | "fetch";
+
+type Interaction = {
+  kind: InteractionKind;
+  key: string;
+  request: unknown;
+  response?: unknown;
+  error?: string;
+};
+
+type CassetteFile = {
+  version: 1;
+  interactions: Interaction[];
+};
+
+type CassetteConfig = {
+  mode: CassetteMode;
+  path: string;
+};
+
+let override: CassetteConfig | null = null;
+const files = new Map<string, JsonFileStore<CassetteFile>>();
+// Replay position per request key, so identical requests made several times
+// in one run get their recorded responses back in the original order.
+const replayCursor = new Map<string, number>();
+
+function currentConfig(): CassetteConfig {
+  if (override) return override;
+  const mode = (process.env.LISTING_CASSETTE_MODE || "off").toLowerCase();
+  return {
+    mode: mode === "record" || mode === "replay" ? mode : "off",
+    path: process.env.LISTING_CASSETTE_PATH || "cassettes/default.json",
+  };
+}
+
+/** True while responses come from the cassette, so no API key is needed. */
+export function isReplaying() {
+  return currentConfig().mode === "replay";
+}
+
+function cassetteFile(path: string) {
+  let file = files.get(path);
+  if (!file) {
+    file = createJsonFileStore<CassetteFile>(
+      path,
+      () => ({ version: 1, interactions: [] }),
+      (data) => Array.isArray(data?.interactions),
+    );
+    files.set(path, file);
+  }
+  return file;
+}
+
+/**
+ * Switches record/replay programmatically (e.g. per test), overriding
+ * `LISTING_CASSETTE_MODE` / `LISTING_CASSETTE_PATH`. Pass null to go back to
+ * the environment settings. Recording starts from an empty cassette.
+ */
+export async function useCassette(config: CassetteConfig | null) {
+  override = config;
+  replayCursor.clear();
+  if (config?.mode === "record") {
+    files.delete(config.path);
+    await cassetteFile(config.path).update((data) => {
+      data.interactions = [];
+    });
+  } else if (config) {
+    files.delete(config.path);
+  }
+}
+
+// Stable JSON: object keys sorted so the key doesn't depend on insertion order.
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// FNV-1a, 64-bit via BigInt; only used to name requests, not for security.
+function requestKey(kind: InteractionKind, request: unknown) {
+  let hash = 0xcbf29ce484222325n;
+  for (const char of `${kind}:${canonical(request)}`) {
+    hash ^= BigInt(char.codePointAt(0) ?? 0);
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return `${kind}:${hash.toString(16).padStart(16, "0")}`;
+}
+
+/**
+ * Wraps one external exchange (LLM call, web search, page fetch). With the
+ * cassette off it just runs `live`. In record mode the request and its
+ * response (or error) are appended to the cassette file; in replay mode the
+ * recorded response is returned and no network call is made. A request that
+ * was never recorded fails loudly instead of silently going live.
+ */
+export async function withCassette<T>(kind: InteractionKind, request: unknown, live: () => Promise<T>): Promise<T> {
+  const config = currentConfig();
+  if (config.mode === "off") return live();
+
+  const key = requestKey(kind, request);
+  const file = cassetteFile(config.path);
+
+  if (config.mode === "replay") {
+    const position = replayCursor.get(key) ?? 0;
+    const match = await file.read(
+      (data) => data.interactions.filter((interaction) => interaction.key === key)[position] ?? null,
+    );
+    if (!match) {
+      throw new Error(`No recorded ${kind} interaction for ${key} in ${config.path}`);
+    }
+    replayCursor.set(key, position + 1);
+    if (match.error != null) throw new Error(match.error);
+    return match.response as T;
+  }
+
+  try {
+    const response = await live();
+    await file.update((data) => {
+      data.interactions.push({ kind, key, request, response });
+    });
+    return response;
+  } catch (error: any) {
+    await file.update((data) => {
+      data.interactions.push({ kind, key, request, error: String(error?.message || error) });
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractCriteria } from "./criteria.js";
+
+test("bedroom counts", () => {
+  assert.equal(extractCriteria("Maison 2+1 chambres à Laval").criteria.beds, "3");
+  assert.equal(extractCriteria("Bungalow 3 + 1 cac, sous-sol fini").criteria.beds, "4");
+  assert.equal(extractCriteria("Condo 2+ chambres").criteria.beds, "2");
+  assert.equal(extractCriteria("Condo deux chambres").criteria.beds, "2");
+  assert.equal(extractCriteria("4½ à Rosemont").criteria.beds, "2");
+});
+
+test("street names aren't places", () => {
+  assert.equal(extractCriteria("Condo rue Sainte-Catherine à Montréal").criteria.location, "Montréal, QC");
+  assert.equal(extractCriteria("Condo près du boulevard Laval").criteria.location, undefined);
+  assert.equal(extractCriteria("Plex sur l'avenue du Mont-Royal").criteria.location, undefined);
+  assert.equal(extractCriteria("Maison à Sainte-Catherine").criteria.location, "Sainte-Catherine, QC");
+});
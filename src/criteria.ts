@@ -0,0 +1,293 @@
+import type { ListingCriteria } from "./agent.js";
+import { findPlaces } from "./geo.js";
+
+export type CriteriaField = keyof ListingCriteria;
+
+export const CRITERIA_FIELDS: CriteriaField[] = [
+  "location",
+  "priceMin",
+  "priceMax",
+  "beds",
+  "baths",
+  "type",
+  "keywords",
+  "boroughs",
+  "radiusKm",
+  "center",
+  "maxMonthlyPayment",
+];
+
+export type TextCriteria = {
+  criteria: Partial<ListingCriteria>;
+  /** The words each criterion was read from, e.g. { priceMax: "sous 600k" }. */
+  matched: Partial<Record<CriteriaField, string>>;
+};
+
+// ---------- Text helpers ----------
+// Accents are stripped and spaces unified so the patterns below stay ASCII.
+// Precomposed accented letters fold to one character each, so offsets usually
+// still line up with the original text.
+function fold(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[\u2019\u2018]/g, "'");
+}
+
+type Scanner = {
+  folded: string;
+  /** Original wording for a span when offsets line up, else the folded text. */
+  snippet(start: number, end: number): string;
+  /** Blanks a span so later patterns don't read the same words twice. */
+  consume(start: number, end: number): void;
+};
+
+function createScanner(text: string): Scanner {
+  const folded = fold(text);
+  const aligned = folded.length === text.length;
+  const scanner: Scanner = {
+    folded,
+    snippet: (start, end) => (aligned ? text : folded).slice(start, end).trim(),
+    consume(start, end) {
+      scanner.folded = scanner.folded.slice(0, start) + " ".repeat(end - start) + scanner.folded.slice(end);
+    },
+  };
+  return scanner;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5,
+};
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+
+function toCount(value: string) {
+  return NUMBER_WORDS[value] ?? Number(value);
+}
+
+// ---------- Prices ----------
+// "600 000", "600,000" and "1.250.000" group thousands; "1,2" and "1.5" are decimals.
+const NUMBER = String.raw`\d{1,3}(?:[ .,]\d{3})+(?!\d)|\d+(?:[.,]\d+)?`;
+const UNIT = String.raw`(?:\s*(millions?|mille|thousand|grand|k|m)(?![a-z]))?`;
+const CURRENCY = String.raw`(?:\s*(?:\$|dollars?|cad)(?![a-z]))`;
+const AMOUNT = String.raw`(\$\s*)?(${NUMBER})${UNIT}(${CURRENCY})?`;
+
+const MAX_WORDS = String.raw`under|below|less than|no more than|max(?:imum)?(?: of)?|up to|at most|budget(?: of)?|sous|moins de|en (?:bas|dessous) de|au plus|jusqu'?a|pas plus de|maximum de|budget de|<=?`;
+const MIN_WORDS = String.raw`over|above|more than|at least|min(?:imum)?(?: of)?|starting (?:at|from)|from|plus de|au moins|a partir de|minimum de|>=?`;
+
+type Amount = { value: number | null; number: number; multiplier: number | null; currency: boolean };
+
+function readAmount(dollarBefore: string | undefined, raw: string, unit: string | undefined, dollarAfter: string | undefined): Amount {
+  const number = /^\d{1,3}(?:[ .,]\d{3})+$/.test(raw) ? Number(raw.replace(/[ .,]/g, "")) : Number(raw.replace(",", "."));
+  const multiplier = !unit ? null : /^(k|mille|thousand|grand)$/.test(unit) ? 1_000 : 1_000_000;
+  const currency = Boolean(dollarBefore || dollarAfter);
+  // "m" is also metres ("500 m du métro"); only small values read as millions.
+  const value = unit === "m" && number >= 100 ? null : number * (multiplier ?? 1);
+  return { value, number, multiplier, currency };
+}
+
+/** A bare "450" isn't a price; "450k", "450 000 $" and "450000" are. */
+function asPrice(amount: Amount, sharedMultiplier: number | null = null) {
+  if (amount.value == null) return null;
+  const value = amount.multiplier == null && sharedMultiplier ? amount.number * sharedMultiplier : amount.value;
+  const plausible = amount.multiplier != null || sharedMultiplier != null || amount.currency || value >= 10_000;
+  return plausible && value >= 10_000 && value <= 100_000_000 ? Math.round(value) : null;
+}
+
+function extractPrices(scanner: Scanner, out: TextCriteria) {
+  const set = (field: "priceMin" | "priceMax", value: number, start: number, end: number) => {
+    out.criteria[field] = String(value);
+    out.matched[field] = scanner.snippet(start, end);
+    scanner.consume(start, end);
+  };
+
+  // Ranges first: "between 450 and 550 thousand", "entre 400 000 et 500 000 $", "450-550k".
+  const range = new RegExp(String.raw`(?:\b(?:between|entre|from|de)\s+)?${AMOUNT}\s*(?:and|et|to|a|-|\u2013)\s*${AMOUNT}`, "g");
+  for (const match of scanner.folded.matchAll(range)) {
+    const low = readAmount(match[1], match[2], match[3], match[4]);
+    const high = readAmount(match[5], match[6], match[7], match[8]);
+    const lowValue = asPrice(low, high.multiplier);
+    const highValue = asPrice(high, low.multiplier);
+    if (lowValue == null || highValue == null || lowValue > highValue) continue;
+    const start = match.index ?? 0;
+    set("priceMin", lowValue, start, start + match[0].length);
+    out.criteria.priceMax = String(highValue);
+    out.matched.priceMax = out.matched.priceMin;
+    return;
+  }
+
+  const patterns: Array<["priceMin" | "priceMax", RegExp]> = [
+    ["priceMax", new RegExp(String.raw`(?<![a-z])(?:${MAX_WORDS})\s*${AMOUNT}`, "g")],
+    ["priceMax", new RegExp(String.raw`${AMOUNT}\s*(?:max(?:imum)?|or less|ou moins|and under)(?![a-z])`, "g")],
+    ["priceMin", new RegExp(String.raw`(?<![a-z])(?:${MIN_WORDS})\s*${AMOUNT}`, "g")],
+    ["priceMin", new RegExp(String.raw`${AMOUNT}\s*(?:\+|min(?:imum)?(?![a-z])|and up|or more|et plus|ou plus)`, "g")],
+  ];
+  for (const [field, pattern] of patterns) {
+    if (out.criteria[field]) continue;
+    for (const match of scanner.folded.matchAll(pattern)) {
+      const value = asPrice(readAmount(match[1], match[2], match[3], match[4]));
+      if (value == null) continue;
+      const start = match.index ?? 0;
+      set(field, value, start, start + match[0].length);
+      break;
+    }
+  }
+
+  // A lone price ("condo 500k à Laval") reads as the budget.
+  if (!out.criteria.priceMin && !out.criteria.priceMax) {
+    for (const match of scanner.folded.matchAll(new RegExp(AMOUNT, "g"))) {
+      const value = asPrice(readAmount(match[1], match[2], match[3], match[4]));
+      if (value == null) continue;
+      const start = match.index ?? 0;
+      set("priceMax", value, start, start + match[0].length);
+      break;
+    }
+  }
+}
+
+// ---------- Monthly payment ----------
+const PER_MONTH = String.raw`\s*(?:\/\s*|par\s+|per\s+|a\s+|an?\s+)(?:mois|month|mo)(?![a-z])`;
+const MONTHLY_PATTERNS = [
+  new RegExp(String.raw`(?:(?<![a-z])(?:${MAX_WORDS})\s*)?${AMOUNT}${PER_MONTH}`),
+  new RegExp(String.raw`(?<![a-z])(?:mensualites?|paiements? mensuels?|monthly payments?|monthly budget)\s*(?:de|of|under|below|max(?:imum)?|sous|<=?)?\s*${AMOUNT}`),
+];
+
+// Runs before prices so "max 3 000 $ / mois" isn't read as a price cap.
+function extractMonthlyPayment(scanner: Scanner, out: TextCriteria) {
+  for (const pattern of MONTHLY_PATTERNS) {
+    const match = scanner.folded.match(pattern);
+    if (!match) continue;
+    const { value } = readAmount(match[1], match[2], match[3], match[4]);
+    if (value == null || value < 100 || value > 100_000) continue;
+    const start = match.index ?? 0;
+    out.criteria.maxMonthlyPayment = String(Math.round(value));
+    out.matched.maxMonthlyPayment = scanner.snippet(start, start + match[0].length);
+    scanner.consume(start, start + match[0].length);
+    return;
+  }
+}
+
+// ---------- Rooms ----------
+// "2+1 chambres" is two bedrooms upstairs and one in the basement: three in all.
+const BEDS = new RegExp(
+  String.raw`(?<![a-z\d.,])${COUNT}(?:\s*\+\s*(\d+))?\s*\+?\s*(?:or more\s+|et plus\s+|ou plus\s+)?(?:bed(?:room)?s?|bdrms?|br|chambres?(?:\s+a\s+coucher)?|cac|cc)(?![a-z])`,
+);
+// Quebec apartment sizes count every room plus half a bathroom: a 4½ has two bedrooms.
+const QUEBEC_SIZE = /(?<![a-z\d.,])([3-9])\s*(?:\u00bd|1\/2|et demi)(?!\d)/;
+const BATHS = new RegExp(
+  String.raw`(?<![a-z\d.,])${COUNT}\s*\+?\s*(?:bath(?:room)?s?|ba|sdb|salles?\s+de\s+bains?)(?![a-z])`,
+);
+
+function extractRooms(scanner: Scanner, out: TextCriteria) {
+  const take = (field: "beds" | "baths", pattern: RegExp, toValue: (match: RegExpMatchArray) => number) => {
+    const match = scanner.folded.match(pattern);
+    if (!match) return;
+    const value = toValue(match);
+    if (!(value > 0)) return;
+    const start = match.index ?? 0;
+    out.criteria[field] = String(value);
+    out.matched[field] = scanner.snippet(start, start + match[0].length);
+    scanner.consume(start, start + match[0].length);
+  };
+  take("beds", BEDS, (match) => toCount(match[1]) + Number(match[2] ?? 0));
+  if (!out.criteria.beds) take("beds", QUEBEC_SIZE, (match) => Number(match[1]) - 2);
+  take("baths", BATHS, (match) => toCount(match[1]));
+}
+
+// ---------- Property type ----------
+// TYPE_OPTIONS values. Order matters: "maison avec grand terrain" is a house,
+// and "condo townhouse" a condo.
+const TYPE_PATTERNS: Array<[string, RegExp]> = [
+  ["multiplex", /\b(multiplex|multi-?logements?|plex|duplex|triplex|quadruplex|quintuplex|immeuble a revenus|revenue property|income property)\b/],
+  ["condo", /\b(condos?|condominiums?|copropriete|appartements?|apartments?|lofts?|penthouse)\b|\d\s*(?:\u00bd|1\/2)/],
+  ["commercial", /\b(commercial|commerce|retail space|office space)\b/],
+  ["house", /\b(maisons?|houses?|homes?|bungalows?|cottages?|jumelee?s?|semi-detached|townhouses?|maison de ville|unifamiliale|single[- ]family|split[- ]level)\b/],
+  ["land", /\b(terrains?|land|vacant lot|lot a batir)\b/],
+];
+
+function extractType(scanner: Scanner, out: TextCriteria) {
+  for (const [type, pattern] of TYPE_PATTERNS) {
+    const match = scanner.folded.match(pattern);
+    if (!match) continue;
+    const start = match.index ?? 0;
+    out.criteria.type = type;
+    out.matched.type = scanner.snippet(start, start + match[0].length);
+    return;
+  }
+}
+
+// ---------- Amenities ----------
+const AMENITIES: Array<[string, RegExp]> = [
+  ["garage", /\bgarages?\b/],
+  ["parking", /\b(parking|stationnements?)\b/],
+  ["pool", /\b(pools?|piscines?)\b/],
+  ["balcony", /\b(balcony|balconies|balcons?)\b/],
+  ["yard", /\b((back)?yard|cour arriere|cour privee)\b/],
+  ["elevator", /\b(elevators?|ascenseurs?)\b/],
+  ["near metro", /\b(metro|subway)\b/],
+  ["fireplace", /\b(fireplace|foyer)\b/],
+  ["air conditioning", /\b(air conditioning|a\/c|climatisation|climatiseurs?|air climatise|heat pump|thermopompe)\b/],
+  ["basement", /\b(basement|sous-sol)\b/],
+  ["view", /\b(views?|vue sur|vue panoramique|vue imprenable)\b/],
+  ["waterfront", /\b(waterfront|lakefront|riverfront|bord de l'eau|bord du lac|bord de la riviere|riverain)\b/],
+  ["renovated", /\b(renovated|renovee?s?)\b/],
+  ["pets allowed", /\b(pets? allowed|pet friendly|animaux (acceptes|permis))\b/],
+  ["storage", /\b(storage|lockers?|rangement)\b/],
+];
+
+function extractAmenities(scanner: Scanner, out: TextCriteria) {
+  const found: string[] = [];
+  const words: string[] = [];
+  for (const [amenity, pattern] of AMENITIES) {
+    const match = scanner.folded.match(pattern);
+    if (!match) continue;
+    const start = match.index ?? 0;
+    found.push(amenity);
+    words.push(scanner.snippet(start, start + match[0].length));
+  }
+  if (!found.length) return;
+  out.criteria.keywords = found.join(", ");
+  out.matched.keywords = words.join(", ");
+}
+
+// ---------- Places ----------
+// Region-wide phrases name Montreal without narrowing the search.
+const REGION_PHRASES = /\b(greater montreal|grand montreal|region de montreal|montreal area|montreal region|rive[- ]sud|rive[- ]nord|south shore|north shore)\b/g;
+
+function extractPlaces(scanner: Scanner, out: TextCriteria) {
+  const places = findPlaces(scanner.folded.replace(REGION_PHRASES, " "));
+  // "Rosemont, Montréal": the borough is the narrower request.
+  const named = places.filter((place) => !places.some((other) => other.parent === place.name));
+  if (!named.length) return;
+  const [first] = named;
+  out.criteria.location = `${first.parent ?? first.name}, QC`;
+  out.matched.location = first.name;
+  if (named.length > 1 || first.kind === "borough") {
+    out.criteria.boroughs = named.map((place) => place.name).join(", ");
+    out.matched.boroughs = out.criteria.boroughs;
+  }
+}
+
+/**
+ * Reads search criteria out of a free-text request in English or French:
+ * places (municipalities and boroughs from the gazetteer), price ranges
+ * ("sous 600k", "between 450 and 550 thousand"), a monthly budget
+ * ("max 3 000 $ / mois"), bedrooms ("3 chambres",
+ * "4½"), bathrooms, property type and amenities, which become `keywords`.
+ * Fields the text doesn't mention are left out.
+ */
+export function extractCriteria(text: string | null | undefined): TextCriteria {
+  const out: TextCriteria = { criteria: {}, matched: {} };
+  if (!text || !text.trim()) return out;
+  const scanner = createScanner(text);
+  extractMonthlyPayment(scanner, out);
+  extractPrices(scanner, out);
+  // Before rooms, which consume "4½" (also a condo hint).
+  extractType(scanner, out);
+  extractRooms(scanner, out);
+  extractAmenities(scanner, out);
+  extractPlaces(scanner, out);
+  return out;
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { isSameProperty, type DedupeCandidate } from "./dedupe.js";
+
+function listing(address: string): DedupeCandidate {
+  return { mls: null, url: null, address, price: 489000, beds: 2, baths: 1 };
+}
+
+function same(a: string, b: string) {
+  return isSameProperty(listing(a), listing(b));
+}
+
+test("a trailing St is the street type, not Saint", () => {
+  assert.equal(same("1234 Beaubien St E #5, Montreal", "5-1234 rue Beaubien E, Montréal"), true);
+  assert.equal(same("100 Sherbrooke St. W., Montreal", "100 rue Sherbrooke Ouest, Montréal"), true);
+  assert.equal(same("1234 Saint-Denis St, Montreal", "1234 rue St-Denis, Montréal"), true);
+});
+
+test("different streets or units stay apart", () => {
+  assert.equal(same("1234 Beaubien St E #6, Montreal", "5-1234 rue Beaubien E, Montréal"), false);
+  assert.equal(same("1234 rue St-Denis, Montréal", "1234 rue Denis, Montréal"), false);
+  assert.equal(same("1234 Beaubien St E, Montreal", "1234 Beaubien St W, Montreal"), false);
+});
@@ -0,0 +1,165 @@
+import { foldPlaceName, parseAddress } from "./geo.js";
+
+export type ListingSourceRef = {
+  url: string | null;
+  source: string | null;
+  mls: string | null;
+  verified: boolean;
+};
+
+/** The fields entity resolution looks at. */
+export type DedupeCandidate = {
+  mls: string | null;
+  url: string | null;
+  address: string | null;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+};
+
+// ---------- Identifiers ----------
+/**
+ * Canonical listing number: "MLS® 12 345 678", "Centris #12345678" and
+ * "No Centris : 12345678" all become "12345678". Other boards' IDs (e.g.
+ * "X1234567") are upper-cased with separators removed.
+ */
+export function normalizeMls(value: string | null | undefined) {
+  if (!value) return null;
+  const compact = value.replace(/(\d)[\s.-](?=\d)/g, "$1");
+  const digits = compact.match(/(?:^|[^A-Za-z0-9])(\d{7,9})(?!\d)/);
+  if (digits) return digits[1];
+  const id = compact
+    .replace(/\b(mls|centris|no|num[ée]ro|listing|id)\b[®#:.\s]*/gi, "")
+    .replace(/[^A-Za-z0-9]/g, "")
+    .toUpperCase();
+  return /\d/.test(id) && id.length >= 5 ? id : null;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_\w+|ref|referrer|source)$/i;
+
+/** Lower-cased host without "www.", no fragment, no tracking parameters, no trailing slash. */
+export function normalizeListingUrl(value: string | null | undefined) {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    url.hash = "";
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+    const tracking: string[] = [];
+    url.searchParams.forEach((_, key) => {
+      if (TRACKING_PARAMS.test(key)) tracking.push(key);
+    });
+    for (const key of tracking) url.searchParams.delete(key);
+    return url.href.replace(/\/(?=$|\?)/, "");
+  } catch {
+    return value.trim();
+  }
+}
+
+// ---------- Addresses ----------
+// Street types and directions in both languages, dropped or unified so
+// "1234 rue Beaubien E" and "1234 Beaubien Street East" compare equal.
+const STREET_WORDS = new Set([
+  "rue", "street", "st", "avenue", "av", "ave", "boulevard", "boul", "blvd", "bd", "chemin", "ch", "road", "rd",
+  "montee", "rang", "place", "pl", "croissant", "crescent", "cres", "cr", "terrasse", "terrace", "cote", "allee",
+  "impasse", "court", "ct", "drive", "dr", "promenade", "parc", "square", "carre", "de", "du", "des", "la", "le", "les", "l", "d",
+]);
+const DIRECTIONS: Record<string, string> = {
+  e: "e", est: "e", east: "e", o: "w", ouest: "w", w: "w", west: "w", n: "n", nord: "n", north: "n", s: "s", sud: "s", south: "s",
+};
+
+// "St" after the street name means Street; foldPlaceName would read it as
+// Saint, as in "St-Denis".
+const TRAILING_ST = /\s+st\.?(?=(?:\s+(?:e|est|east|o|ouest|w|west|n|nord|north|s|sud|south)\.?)?\s*$)/i;
+
+export type AddressSignature = {
+  civic: string | null;
+  unit: string | null;
+  streetTokens: string[];
+  direction: string | null;
+  city: string | null;
+};
+
+export function addressSignature(address: string | null | undefined): AddressSignature | null {
+  if (!address) return null;
+  const parsed = parseAddress(address);
+  if (!parsed.street) return null;
+  const tokens = foldPlaceName(parsed.street.replace(TRAILING_ST, "")).split(" ");
+  const civicMatch = tokens[0]?.match(/^(\d+)([a-z])?$/);
+  const civic = civicMatch ? civicMatch[0] : null;
+  const rest = civic ? tokens.slice(1) : tokens;
+  let direction: string | null = null;
+  const streetTokens: string[] = [];
+  rest.forEach((token, index) => {
+    if (index === rest.length - 1 && DIRECTIONS[token] && rest.length > 1) direction = DIRECTIONS[token];
+    else if (!STREET_WORDS.has(token)) streetTokens.push(token);
+  });
+  return {
+    civic,
+    unit: parsed.unit ? parsed.unit.toLowerCase().replace(/^0+/, "") : null,
+    streetTokens,
+    direction,
+    city: parsed.city ? foldPlaceName(parsed.city) : null,
+  };
+}
+
+function tokenSimilarity(a: string[], b: string[]) {
+  if (!a.length || !b.length) return 0;
+  const setB = new Set(b);
+  const shared = a.filter((token) => setB.has(token)).length;
+  return shared / new Set([...a, ...b]).size;
+}
+
+function sameAddress(a: AddressSignature, b: AddressSignature) {
+  if (!a.civic || a.civic !== b.civic) return false;
+  // Different units in one building are different listings; a missing unit
+  // on one side is just less detail.
+  if (a.unit && b.unit && a.unit !== b.unit) return false;
+  if (a.direction && b.direction && a.direction !== b.direction) return false;
+  if (a.city && b.city && a.city !== b.city) return false;
+  return tokenSimilarity(a.streetTokens, b.streetTokens) >= 0.6;
+}
+
+// ---------- Matching ----------
+function closeEnough(a: number | null, b: number | null, tolerance: (value: number) => number) {
+  return a == null || b == null || Math.abs(a - b) <= tolerance(Math.max(a, b));
+}
+
+/**
+ * True when two records describe the same property: same listing number or
+ * URL, or (when neither has a conflicting number) the same normalized address
+ * with compatible facts. Sources disagree a little (a price cut not yet
+ * synced, a basement bedroom or powder room counted or not), so price may
+ * differ by 5% and room counts by one.
+ */
+export function isSameProperty(a: DedupeCandidate, b: DedupeCandidate) {
+  const mlsA = normalizeMls(a.mls);
+  const mlsB = normalizeMls(b.mls);
+  if (mlsA && mlsB) return mlsA === mlsB;
+  const urlA = normalizeListingUrl(a.url);
+  if (urlA && urlA === normalizeListingUrl(b.url)) return true;
+
+  const addressA = addressSignature(a.address);
+  const addressB = addressSignature(b.address);
+  if (!addressA || !addressB || !sameAddress(addressA, addressB)) return false;
+  return (
+    closeEnough(a.price, b.price, (value) => value * 0.05) &&
+    closeEnough(a.beds, b.beds, () => 1) &&
+    closeEnough(a.baths, b.baths, () => 1)
+  );
+}
+
+export function mergeSourceRefs(...lists: ListingSourceRef[][]) {
+  const out: ListingSourceRef[] = [];
+  for (const ref of lists.flat()) {
+    const url = normalizeListingUrl(ref.url);
+    const existing = out.find((item) => (url ? normalizeListingUrl(item.url) === url : !item.url && item.source === ref.source));
+    if (existing) {
+      existing.mls ??= ref.mls;
+      existing.source ??= ref.source;
+      existing.verified ||= ref.verified;
+    } else {
+      out.push({ ...ref });
+    }
+  }
+  return out;
+}
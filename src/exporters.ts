@@ -0,0 +1,251 @@
+import type { AgentSource } from "./agent.js";
+import type { NormalizedListing } from "./main.js";
+
+export type ExportFormat = "json" | "csv" | "geojson" | "html";
+
+export type ExportableListing = NormalizedListing & { matchScore?: number };
+
+export type ExportableOutput = {
+  title: string;
+  criteria?: Record<string, string>;
+  listings: ExportableListing[];
+  agentNotes?: { en: string | null; fr: string | null };
+  sources?: AgentSource[];
+  warnings?: string[];
+};
+
+export type ExportedDocument = {
+  contentType: string;
+  filename: string;
+  body: string;
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "geojson", "html"];
+
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  const format = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!format) return "json";
+  return (EXPORT_FORMATS as string[]).includes(format) ? (format as ExportFormat) : null;
+}
+
+// ---------- CSV ----------
+const CSV_COLUMNS: Array<[string, (listing: ExportableListing) => unknown]> = [
+  ["mls", (l) => (/\d/.test(l.mls) ? l.mls : "")],
+  ["address", (l) => l.address],
+  ["street", (l) => l.location?.street],
+  ["unit", (l) => l.location?.unit],
+  ["city", (l) => l.location?.city],
+  ["borough", (l) => l.location?.borough],
+  ["postal_code", (l) => l.location?.postalCode],
+  ["price", (l) => l.price],
+  ["beds", (l) => l.beds],
+  ["baths", (l) => l.baths],
+  ["type", (l) => l.type],
+  ["municipal_tax_annual", (l) => l.municipalTaxAnnual],
+  ["school_tax_annual", (l) => l.schoolTaxAnnual],
+  ["condo_fees_monthly", (l) => l.condoFeesMonthly],
+  ["living_area_sqft", (l) => l.livingAreaSqft],
+  ["living_area_m2", (l) => l.livingAreaM2],
+  ["lot_size_sqft", (l) => l.lotSizeSqft],
+  ["lot_size_m2", (l) => l.lotSizeM2],
+  ["year_built", (l) => l.yearBuilt],
+  ["parking_spaces", (l) => l.parkingSpaces],
+  ["listed_at", (l) => l.listedAt],
+  ["days_on_market", (l) => l.daysOnMarket],
+  ["welcome_tax", (l) => l.affordability?.welcomeTax],
+  ["min_down_payment", (l) => l.affordability?.minimumDownPayment],
+  ["cmhc_premium", (l) => l.affordability?.insurancePremium],
+  ["monthly_mortgage", (l) => l.affordability?.monthlyMortgage],
+  ["monthly_total", (l) => l.affordability?.monthlyTotal],
+  ["cost_summary_en", (l) => l.affordability?.summary_en],
+  ["cost_summary_fr", (l) => l.affordability?.summary_fr],
+  ["match_score", (l) => l.matchScore],
+  ["verified", (l) => l.verified],
+  ["url", (l) => l.url],
+  ["source", (l) => l.source],
+  ["note_en", (l) => l.note_en],
+  ["note_fr", (l) => l.note_fr],
+  ["other_urls", (l) => (l.sources ?? []).map((ref) => ref.url).filter((url) => url && url !== l.url).join(" | ")],
+  ["photos", (l) => (l.photos ?? []).join(" | ")],
+  ["lat", (l) => l.location?.lat],
+  ["lon", (l) => l.location?.lon],
+];
+
+function csvCell(value: unknown) {
+  if (value == null) return "";
+  let text = String(value);
+  // Scraped text starting with = + - @ would run as a formula in Excel.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per listing; UTF-8 with a BOM and CRLF so Excel keeps the accents. */
+export function toCsv(listings: ExportableListing[]) {
+  const rows = [
+    CSV_COLUMNS.map(([name]) => name),
+    ...listings.map((listing) => CSV_COLUMNS.map(([, get]) => get(listing))),
+  ];
+  return "\ufeff" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ---------- GeoJSON ----------
+/**
+ * FeatureCollection of the listings that have coordinates. Coordinates are
+ * gazetteer centroids (see `location.precision`), not rooftop positions.
+ */
+export function toGeoJson(listings: ExportableListing[]) {
+  const features = listings
+    .filter((listing) => listing.location?.lat != null && listing.location?.lon != null)
+    .map(({ location, ...listing }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [location!.lon, location!.lat] },
+      properties: {
+        ...listing,
+        mls: /\d/.test(listing.mls) ? listing.mls : null,
+        city: location!.city,
+        borough: location!.borough,
+        postalCode: location!.postalCode,
+        precision: location!.precision,
+      },
+    }));
+  return JSON.stringify({ type: "FeatureCollection", features });
+}
+
+// ---------- HTML report ----------
+function escapeHtml(value: unknown) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function safeHref(url: string | null | undefined) {
+  return url && /^https?:\/\//i.test(url) ? escapeHtml(url) : null;
+}
+
+function formatPrice(price: number | null, locale: "en-CA" | "fr-CA") {
+  if (price == null) return "—";
+  return new Intl.NumberFormat(locale, { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(price);
+}
+
+function formatArea(sqft: number | null, m2: number | null) {
+  if (sqft == null) return null;
+  return `${new Intl.NumberFormat("en-CA").format(sqft)} sq ft · ${new Intl.NumberFormat("fr-CA").format(m2 ?? 0)} m²`;
+}
+
+// Extra facts are only shown when known, to keep the card short.
+function extraFacts(listing: ExportableListing): Array<[string, string | null]> {
+  const taxes = [listing.municipalTaxAnnual, listing.schoolTaxAnnual].filter((tax): tax is number => tax != null);
+  return [
+    ["Living area / Superficie habitable", formatArea(listing.livingAreaSqft, listing.livingAreaM2)],
+    ["Lot / Terrain", formatArea(listing.lotSizeSqft, listing.lotSizeM2)],
+    ["Year built / Année de construction", listing.yearBuilt != null ? String(listing.yearBuilt) : null],
+    ["Parking / Stationnement", listing.parkingSpaces != null ? String(listing.parkingSpaces) : null],
+    [
+      "Taxes (yearly) / Taxes (annuelles)",
+      taxes.length ? formatPrice(taxes.reduce((sum, tax) => sum + tax, 0), "fr-CA") : null,
+    ],
+    [
+      "Condo fees / Frais de copropriété",
+      listing.condoFeesMonthly != null ? `${formatPrice(listing.condoFeesMonthly, "fr-CA")} / mois` : null,
+    ],
+    [
+      "Days on market / Jours sur le marché",
+      listing.daysOnMarket != null ? String(listing.daysOnMarket) : null,
+    ],
+  ];
+}
+
+function listingCard(listing: ExportableListing, index: number) {
+  const href = safeHref(listing.url);
+  const photo = safeHref(listing.photos?.[0]);
+  const mls = /\d/.test(listing.mls) ? listing.mls : null;
+  const facts = [
+    `<dt>Price / Prix</dt><dd>${escapeHtml(formatPrice(listing.price, "en-CA"))} · ${escapeHtml(formatPrice(listing.price, "fr-CA"))}</dd>`,
+    `<dt>Bedrooms / Chambres</dt><dd>${escapeHtml(listing.beds ?? "—")}</dd>`,
+    `<dt>Bathrooms / Salles de bain</dt><dd>${escapeHtml(listing.baths ?? "—")}</dd>`,
+    `<dt>Type</dt><dd>${escapeHtml(listing.type ?? "—")}</dd>`,
+    `<dt>MLS®</dt><dd>${escapeHtml(mls ?? "—")}</dd>`,
+  ];
+  for (const [label, value] of extraFacts(listing)) {
+    if (value) facts.push(`<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`);
+  }
+  if (listing.location?.borough || listing.location?.city) {
+    facts.push(`<dt>Area / Secteur</dt><dd>${escapeHtml(listing.location.borough ?? listing.location.city)}</dd>`);
+  }
+  return `<article class="listing">
+  <h2>${index + 1}. ${escapeHtml(listing.address ?? "Address not available / Adresse non disponible")}</h2>
+  ${photo ? `<img src="${photo}" alt="">` : ""}
+  <dl>${facts.join("")}</dl>
+  <div class="notes">
+    <p lang="en"><strong>EN</strong> ${escapeHtml(listing.note_en ?? "—")}</p>
+    <p lang="fr"><strong>FR</strong> ${escapeHtml(listing.note_fr ?? "—")}</p>
+  </div>
+  ${listing.affordability ? `<div class="costs">
+    <p lang="en"><strong>Costs</strong> ${escapeHtml(listing.affordability.summary_en)}</p>
+    <p lang="fr"><strong>Coûts</strong> ${escapeHtml(listing.affordability.summary_fr)}</p>
+  </div>` : ""}
+  ${href ? `<p class="link"><a href="${href}">${href}</a></p>` : ""}
+</article>`;
+}
+
+/** Printable bilingual client handout: criteria, listings, notes and sources. */
+export function toHtmlReport(output: ExportableOutput, generatedAt = new Date()) {
+  const criteria = Object.entries(output.criteria ?? {})
+    .filter(([key, value]) => value && key !== "keywords")
+    .map(([key, value]) => `<li><strong>${escapeHtml(key)}</strong>: ${escapeHtml(value)}</li>`)
+    .join("");
+  const sources = (output.sources ?? [])
+    .map((source) => {
+      const href = safeHref(source.url);
+      const label = escapeHtml(source.title ?? source.url);
+      return `<li>${href ? `<a href="${href}">${label}</a>` : label}</li>`;
+    })
+    .join("");
+  const notes = output.agentNotes;
+
+  return `<!doctype html>
+<html lang="fr-CA">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(output.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  h1 { margin-bottom: 0.2rem; }
+  .meta { color: #666; margin-top: 0; }
+  .listing { border: 1px solid #ccc; border-radius: 6px; padding: 1rem; margin: 1rem 0; page-break-inside: avoid; }
+  .listing img { max-width: 240px; float: right; margin-left: 1rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .notes p, .costs p { margin: 0.4rem 0; }
+  .costs { font-size: 0.9rem; color: #444; }
+  .link { font-size: 0.85rem; word-break: break-all; clear: both; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(output.title)}</h1>
+<p class="meta">Generated / Généré : ${escapeHtml(generatedAt.toISOString().slice(0, 10))} · ${output.listings.length} listing(s) / inscription(s)</p>
+${criteria ? `<section><h2>Criteria / Critères</h2><ul>${criteria}</ul></section>` : ""}
+${output.listings.length ? output.listings.map(listingCard).join("\n") : "<p>No listings found. / Aucune inscription trouvée.</p>"}
+${notes?.en || notes?.fr ? `<section><h2>Notes</h2><p lang="en">${escapeHtml(notes.en ?? "")}</p><p lang="fr">${escapeHtml(notes.fr ?? "")}</p></section>` : ""}
+${sources ? `<section><h2>Sources</h2><ul>${sources}</ul></section>` : ""}
+</body>
+</html>
+`;
+}
+
+/** Renders a workflow output (or a plain listing set) in the requested format. */
+export function exportOutput(output: ExportableOutput, format: Exclude<ExportFormat, "json">): ExportedDocument {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === "csv") {
+    return { contentType: "text/csv; charset=utf-8", filename: `listings-${stamp}.csv`, body: toCsv(output.listings) };
+  }
+  if (format === "geojson") {
+    return { contentType: "application/geo+json", filename: `listings-${stamp}.geojson`, body: toGeoJson(output.listings) };
+  }
+  return { contentType: "text/html; charset=utf-8", filename: `listings-${stamp}.html`, body: toHtmlReport(output) };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractStructuredListing } from "./extract.js";
+
+function jsonLd(value: unknown) {
+  return `<html><head><script type="application/ld+json">${JSON.stringify(value)}</script></head><body></body></html>`;
+}
+
+test("an MLS number in the page text isn't a listing", () => {
+  assert.equal(extractStructuredListing("<html><body><p>Blog post mentioning MLS 23456789</p></body></html>"), null);
+});
+
+test("facts aren't combined across unrelated JSON-LD nodes", () => {
+  const html = jsonLd([
+    { "@context": "https://schema.org", "@type": "Product", name: "Home inspection", offers: { "@type": "Offer", price: 450000 } },
+    {
+      "@context": "https://schema.org",
+      "@type": "SingleFamilyResidence",
+      numberOfBedrooms: 4,
+      address: { "@type": "PostalAddress", streetAddress: "12 rue X", addressLocality: "Laval" },
+    },
+  ]);
+  const listing = extractStructuredListing(html);
+  assert.equal(listing?.price, null);
+  assert.equal(listing?.beds, 4);
+  assert.equal(listing?.address, "12 rue X, Laval");
+});
+
+test("a page listing several homes gives no JSON-LD facts", () => {
+  const home = (street: string, price: number) => ({
+    "@type": "RealEstateListing",
+    offers: { "@type": "Offer", price },
+    mainEntity: { "@type": "House", address: { "@type": "PostalAddress", streetAddress: street } },
+  });
+  const html = jsonLd({ "@context": "https://schema.org", "@graph": [home("1 rue A", 400000), home("2 rue B", 500000)] });
+  assert.equal(extractStructuredListing(html), null);
+});
+
+test("one listing with its offer and the residence it references", () => {
+  const html = jsonLd({
+    "@context": "https://schema.org",
+    "@graph": [
+      { "@type": "RealEstateListing", identifier: "12345678", offers: { "@type": "Offer", price: 429000 }, mainEntity: { "@id": "#home" } },
+      {
+        "@id": "#home",
+        "@type": "Apartment",
+        numberOfBedrooms: 2,
+        address: { "@type": "PostalAddress", streetAddress: "3500, boulevard du Souvenir", addressLocality: "Laval" },
+      },
+    ],
+  });
+  const listing = extractStructuredListing(html);
+  assert.equal(listing?.mls, "12345678");
+  assert.equal(listing?.price, 429000);
+  assert.equal(listing?.beds, 2);
+  assert.equal(listing?.type, "condo");
+  assert.equal(listing?.address, "3500, boulevard du Souvenir, Laval");
+});
+
+test("an offer counts through the residence it offers", () => {
+  const html = jsonLd({
+    "@context": "https://schema.org",
+    "@type": "Offer",
+    price: "574 900 $",
+    itemOffered: { "@type": "House", address: "845, rue Saint-Charles Est, Longueuil" },
+  });
+  const listing = extractStructuredListing(html);
+  assert.equal(listing?.price, 574900);
+  assert.equal(listing?.type, "house");
+  assert.equal(listing?.address, "845, rue Saint-Charles Est, Longueuil");
+});
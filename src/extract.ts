@@ -0,0 +1,350 @@
+export type StructuredListing = {
+  mls: string | null;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  address: string | null;
+  type: string | null;
+  /** e.g. "1150 sq ft"; converted later by `normalizeListingAttributes`. */
+  livingArea: string | null;
+  yearBuilt: number | null;
+  /** schema.org `datePosted`. */
+  listedAt: string | null;
+  photos: string[];
+  extractedFrom: string[];
+};
+
+type JsonNode = Record<string, any>;
+
+const LISTING_TYPES = new Set(["RealEstateListing"]);
+// Only read through `itemOffered`: on their own they're often unrelated (ads, services).
+const OFFER_TYPES = new Set(["Offer", "AggregateOffer", "Product"]);
+const RESIDENCE_TYPES: Record<string, string> = {
+  Residence: "",
+  Accommodation: "",
+  House: "house",
+  SingleFamilyResidence: "house",
+  Apartment: "condo",
+  ApartmentComplex: "multiplex",
+  GatedResidenceCommunity: "",
+  Place: "",
+};
+
+// ---------- Helpers ----------
+function decodeEntities(value: string) {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function readAttribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  if (!match) return null;
+  return decodeEntities(match[2] ?? match[3] ?? match[4] ?? "").trim();
+}
+
+function asArray<T>(value: T | T[] | null | undefined): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isJsonNode(value: unknown): value is JsonNode {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function typesOf(node: JsonNode) {
+  return asArray(node?.["@type"]).map((t) => String(t).replace(/^https?:\/\/schema\.org\//, ""));
+}
+
+function toNumber(value: unknown): number | null {
+  if (value == null) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "object") {
+    const record = value as JsonNode;
+    return toNumber(record.value ?? record.price ?? record.minValue ?? null);
+  }
+  const cleaned = String(value).replace(/[\s\u00a0\u202f$]/g, "").replace(/,(\d{3})/g, "$1").replace(",", ".");
+  const match = cleaned.match(/\d+(\.\d+)?/);
+  if (!match) return null;
+  const n = Number(match[0]);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toText(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  if (typeof value === "object") {
+    const record = value as JsonNode;
+    return toText(record.value ?? record.name ?? record["@id"] ?? null);
+  }
+  return null;
+}
+
+function formatAddress(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value !== "object") return null;
+  const record = value as JsonNode;
+  const parts = [
+    record.streetAddress,
+    record.addressLocality,
+    record.addressRegion,
+    record.postalCode,
+  ]
+    .map((part) => (typeof part === "string" ? part.trim() : ""))
+    .filter(Boolean);
+  return parts.length ? parts.join(", ") : null;
+}
+
+// UN/CEFACT codes used by schema.org QuantitativeValue.
+const AREA_UNIT_CODES: Record<string, string> = { FTK: "sq ft", MTK: "m²" };
+
+function formatArea(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value !== "object") return toText(value);
+  const record = value as JsonNode;
+  const amount = toNumber(record.value);
+  if (amount == null) return null;
+  const unit = AREA_UNIT_CODES[String(record.unitCode ?? "").toUpperCase()] ?? toText(record.unitText) ?? "";
+  return `${amount} ${unit}`.trim();
+}
+
+function imageUrls(value: unknown): string[] {
+  return asArray<unknown>(value)
+    .map((item) => (typeof item === "string" ? item : isJsonNode(item) ? toText(item.url ?? item.contentUrl) : null))
+    .filter((item): item is string => Boolean(item && /^https?:\/\//i.test(item)));
+}
+
+function fillGap<K extends keyof StructuredListing>(target: StructuredListing, patch: Partial<StructuredListing>, key: K) {
+  const value = patch[key];
+  if (target[key] != null || value == null) return false;
+  target[key] = value as StructuredListing[K];
+  return true;
+}
+
+function mergeInto(target: StructuredListing, patch: Partial<StructuredListing>, extractor: string) {
+  let used = false;
+  for (const key of ["mls", "price", "beds", "baths", "address", "type", "livingArea", "yearBuilt", "listedAt"] as const) {
+    if (fillGap(target, patch, key)) used = true;
+  }
+  for (const photo of patch.photos ?? []) {
+    if (!target.photos.includes(photo)) {
+      target.photos.push(photo);
+      used = true;
+    }
+  }
+  if (used && !target.extractedFrom.includes(extractor)) target.extractedFrom.push(extractor);
+}
+
+// ---------- JSON-LD ----------
+function flattenJsonLd(value: unknown, out: JsonNode[] = []): JsonNode[] {
+  for (const node of asArray<unknown>(value)) {
+    if (!isJsonNode(node)) continue;
+    out.push(node);
+    if (Array.isArray(node["@graph"])) flattenJsonLd(node["@graph"], out);
+  }
+  return out;
+}
+
+function isResidence(node: JsonNode) {
+  return typesOf(node).some((t) => t in RESIDENCE_TYPES);
+}
+
+function residenceFields(node: JsonNode): Partial<StructuredListing> {
+  const residenceType = typesOf(node).find((t) => t in RESIDENCE_TYPES);
+  return {
+    address: formatAddress(node.address),
+    beds: toNumber(node.numberOfBedrooms),
+    baths: toNumber(node.numberOfBathroomsTotal ?? node.numberOfFullBathrooms),
+    type: residenceType ? RESIDENCE_TYPES[residenceType] || null : null,
+    livingArea: formatArea(node.floorSize),
+    yearBuilt: toNumber(node.yearBuilt),
+    photos: imageUrls(node.image ?? node.photo),
+  };
+}
+
+function priceOf(offer: JsonNode) {
+  return toNumber(offer.price ?? offer.lowPrice ?? offer.priceSpecification);
+}
+
+/**
+ * One listing's facts: a RealEstateListing or residence node with its own
+ * `offers` and the residence it describes, or an offer for a residence.
+ * `resolve` follows `{"@id": …}` references within the page's graph.
+ */
+function listingEntity(node: JsonNode, resolve: (item: unknown) => JsonNode | null) {
+  const types = typesOf(node);
+  const offers = asArray<unknown>(node.offers).map(resolve).filter((item): item is JsonNode => Boolean(item));
+  let residence: JsonNode | null = null;
+  let price: number | null = null;
+  if (types.some((t) => LISTING_TYPES.has(t)) || isResidence(node)) {
+    residence =
+      [node.about, node.mainEntity, node.itemOffered, ...offers.map((offer) => offer.itemOffered)]
+        .flatMap((item) => asArray<unknown>(item))
+        .map(resolve)
+        .find((item): item is JsonNode => Boolean(item) && isResidence(item)) ?? null;
+    price = offers.map(priceOf).find((value) => value != null) ?? (isResidence(node) ? null : priceOf(node));
+  } else if (types.some((t) => OFFER_TYPES.has(t))) {
+    residence =
+      asArray<unknown>(node.itemOffered)
+        .map(resolve)
+        .find((item): item is JsonNode => Boolean(item) && isResidence(item)) ?? null;
+    if (!residence) return null;
+    price = priceOf(node) ?? offers.map(priceOf).find((value) => value != null) ?? null;
+  } else {
+    return null;
+  }
+
+  const entity = emptyListing();
+  const mls = toText(node.identifier ?? node.sku ?? node.productID ?? node.mlsNumber);
+  mergeInto(entity, { mls, listedAt: toText(node.datePosted), price }, "json-ld");
+  mergeInto(entity, isResidence(node) ? residenceFields(node) : {}, "json-ld");
+  mergeInto(entity, residence ? residenceFields(residence) : {}, "json-ld");
+  return { entity, residence };
+}
+
+function extractJsonLd(html: string, target: StructuredListing) {
+  const nodes: JsonNode[] = [];
+  const blocks = html.matchAll(/<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const block of blocks) {
+    try {
+      flattenJsonLd(JSON.parse(block[1].trim()), nodes);
+    } catch {
+      continue;
+    }
+  }
+
+  const byId = new Map(nodes.filter((node) => typeof node["@id"] === "string").map((node) => [node["@id"] as string, node]));
+  const resolve = (item: unknown) => {
+    if (!isJsonNode(item)) return null;
+    const id = item["@id"];
+    return typeof id === "string" && Object.keys(item).length === 1 ? (byId.get(id) ?? null) : item;
+  };
+
+  const found = nodes.flatMap((node) => {
+    const result = listingEntity(node, resolve);
+    return result ? [{ node, ...result }] : [];
+  });
+  // A residence described by a listing node is part of that listing, not another one.
+  const described = new Set(found.map((item) => item.residence).filter(Boolean));
+  const listings = found.filter((item) => !described.has(item.node));
+  // Search results and "similar properties" blocks list several homes; their
+  // facts can't be told apart, so the page gives none.
+  if (listings.length !== 1) return;
+  mergeInto(target, listings[0].entity, "json-ld");
+}
+
+// ---------- OpenGraph ----------
+function extractOpenGraph(html: string, target: StructuredListing) {
+  const meta = new Map<string, string[]>();
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = (readAttribute(match[0], "property") ?? readAttribute(match[0], "name") ?? "").toLowerCase();
+    const content = readAttribute(match[0], "content");
+    if (!key || !content) continue;
+    meta.set(key, [...(meta.get(key) ?? []), content]);
+  }
+  const one = (...keys: string[]) => keys.map((key) => meta.get(key)?.[0]).find(Boolean) ?? null;
+
+  const street = one("og:street-address", "place:street_address");
+  const locality = one("og:locality", "place:locality");
+  const region = one("og:region", "place:region");
+  const postal = one("og:postal-code", "place:postal_code");
+  const address = [street, locality, region, postal].filter(Boolean).join(", ") || null;
+
+  mergeInto(
+    target,
+    {
+      price: toNumber(one("product:price:amount", "og:price:amount", "realestate:price")),
+      address,
+      photos: [...(meta.get("og:image") ?? []), ...(meta.get("og:image:url") ?? [])].filter((url) =>
+        /^https?:\/\//i.test(url),
+      ),
+    },
+    "opengraph",
+  );
+}
+
+// ---------- Microdata ----------
+function extractMicrodata(html: string, target: StructuredListing) {
+  const props = new Map<string, string[]>();
+  const pattern = /<([a-z0-9]+)\b[^>]*\bitemprop\s*=\s*["']([^"']+)["'][^>]*>([^<]*)/gi;
+  for (const match of html.matchAll(pattern)) {
+    const tag = match[0].slice(0, match[0].indexOf(">") + 1);
+    const value =
+      readAttribute(tag, "content") ??
+      readAttribute(tag, "src") ??
+      readAttribute(tag, "href") ??
+      decodeEntities(match[3]).trim();
+    if (!value) continue;
+    for (const name of match[2].split(/\s+/)) {
+      props.set(name, [...(props.get(name) ?? []), value]);
+    }
+  }
+  const one = (...names: string[]) => names.map((name) => props.get(name)?.[0]).find(Boolean) ?? null;
+  // Several prices or street addresses means several listings on the page.
+  const distinct = (name: string) => new Set(props.get(name) ?? []).size;
+  if (distinct("price") > 1 || distinct("streetAddress") > 1) return;
+
+  const address =
+    [one("streetAddress"), one("addressLocality"), one("addressRegion"), one("postalCode")]
+      .filter(Boolean)
+      .join(", ") || null;
+
+  mergeInto(
+    target,
+    {
+      mls: one("identifier", "productID", "sku", "mlsNumber"),
+      price: toNumber(one("price", "lowPrice")),
+      beds: toNumber(one("numberOfBedrooms")),
+      baths: toNumber(one("numberOfBathroomsTotal", "numberOfFullBathrooms")),
+      address,
+      livingArea: one("floorSize"),
+      yearBuilt: toNumber(one("yearBuilt")),
+      listedAt: one("datePosted"),
+      photos: (props.get("image") ?? []).filter((url) => /^https?:\/\//i.test(url)),
+    },
+    "microdata",
+  );
+}
+
+function emptyListing(): StructuredListing {
+  return {
+    mls: null,
+    price: null,
+    beds: null,
+    baths: null,
+    address: null,
+    type: null,
+    livingArea: null,
+    yearBuilt: null,
+    listedAt: null,
+    photos: [],
+    extractedFrom: [],
+  };
+}
+
+/**
+ * Pulls listing facts out of schema.org JSON-LD, OpenGraph tags and microdata.
+ * Earlier sources win: JSON-LD is the most precise, then microdata, then OG.
+ * JSON-LD facts come from a single listing entity; an MLS number that only
+ * appears in the page text is left to the model. Returns null when nothing
+ * listing-like was found on the page.
+ */
+export function extractStructuredListing(html: string): StructuredListing | null {
+  const result = emptyListing();
+
+  extractJsonLd(html, result);
+  extractMicrodata(html, result);
+  extractOpenGraph(html, result);
+
+  result.photos = result.photos.slice(0, 20);
+  const hasFacts = result.mls != null || result.price != null || result.address != null;
+  return hasFacts ? result : null;
+}
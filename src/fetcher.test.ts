@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import { createServer, type Server } from "http";
+
+// Module settings are read at import time, so they're set before loading the fetcher.
+process.env.LISTING_FETCH_ALLOW_PRIVATE = "true";
+process.env.LISTING_FETCH_MIN_INTERVAL_MS = "0";
+process.env.LISTING_FETCH_CACHE_DIR = "dist/test-data/fetch-cache";
+
+const { politeFetch } = await import("./fetcher.js");
+
+let server: Server;
+let base = "";
+// A host whose robots.txt never ends.
+let endless: Server;
+let endlessBase = "";
+
+function listen(target: Server) {
+  return new Promise<string>((resolve) =>
+    target.listen(0, () => {
+      const address = target.address();
+      resolve(`http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`);
+    }),
+  );
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/robots.txt") {
+      res.writeHead(301, { Location: "/robots/current.txt" });
+      res.end();
+    } else if (req.url === "/robots/current.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end("User-agent: *\nDisallow: /private\n");
+    } else if (req.url === "/old-listing") {
+      res.writeHead(302, { Location: "/listing" });
+      res.end();
+    } else {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(`<html><body>Condo à vendre ${req.url}</body></html>`);
+    }
+  });
+  base = await listen(server);
+
+  endless = createServer((req, res) => {
+    if (req.url !== "/robots.txt") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end("<html><body>Maison à vendre</body></html>");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.write("User-agent: *\nDisallow: /private\n");
+    let open = true;
+    res.on("close", () => {
+      open = false;
+    });
+    const filler = "# filler\n".repeat(2048);
+    const pump = () => {
+      if (!open) return;
+      res.write(filler);
+      setTimeout(pump, 0);
+    };
+    pump();
+  });
+  endlessBase = await listen(endless);
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(resolve));
+  await new Promise<void>((resolve) => endless.close(resolve));
+});
+
+test("follows page redirects and reads the body", async () => {
+  const page = await politeFetch(`${base}/old-listing`);
+  assert.equal(page.status, 200);
+  assert.equal(page.url, `${base}/listing`);
+  assert.match(page.html, /Condo à vendre \/listing/);
+});
+
+test("robots.txt redirects are followed hop by hop", async () => {
+  await assert.rejects(politeFetch(`${base}/private/listing`), /Blocked by robots\.txt/);
+});
+
+test("reads no more of robots.txt than the cap", async () => {
+  const page = await politeFetch(`${endlessBase}/listing`);
+  assert.equal(page.status, 200);
+  assert.match(page.html, /Maison à vendre/);
+  await assert.rejects(politeFetch(`${endlessBase}/private/listing`), /Blocked by robots\.txt/);
+});
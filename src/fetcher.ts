@@ -0,0 +1,479 @@
+import { lookup, type LookupAddress } from "dns/promises";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { request as httpRequest, type IncomingMessage, type LookupFunction } from "http";
+import { request as httpsRequest } from "https";
+import { join } from "path";
+import { Readable } from "stream";
+
+export type FetchedPage = {
+  status: number;
+  ok: boolean;
+  html: string;
+  /** URL after redirects. */
+  url: string;
+  cache: "hit" | "revalidated" | "miss" | "off";
+  truncated: boolean;
+};
+
+export type PoliteFetchOptions = {
+  signal?: AbortSignal;
+};
+
+type CacheEntry = {
+  url: string;
+  finalUrl: string;
+  status: number;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number;
+  truncated: boolean;
+  html: string;
+};
+
+export type PublicRequestInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+};
+
+/** A checked URL and the addresses its host resolved to during the check. */
+type PublicTarget = {
+  url: URL;
+  /** Null when nothing was resolved (IP literal host, or private hosts allowed). */
+  addresses: LookupAddress[] | null;
+};
+
+type RobotsRules = {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  crawlDelayMs: number;
+  /** Unreachable robots.txt (5xx, network error) means "disallow all" (RFC 9309). */
+  disallowAll: boolean;
+  expiresAt: number;
+};
+
+// ---------- Config ----------
+const USER_AGENT =
+  process.env.LISTING_AGENT_USER_AGENT || "Mozilla/5.0 (compatible; ListingFinderBot/1.0; +https://example.com/bot)";
+const FETCH_TIMEOUT_MS = Number(process.env.LISTING_FETCH_TIMEOUT_MS || 15_000);
+const MAX_BYTES = Number(process.env.LISTING_FETCH_MAX_BYTES || 2 * 1024 * 1024);
+const MAX_REDIRECTS = 5;
+const MIN_INTERVAL_MS = Number(process.env.LISTING_FETCH_MIN_INTERVAL_MS || 1_000);
+const CACHE_DIR = process.env.LISTING_FETCH_CACHE_DIR || "data/fetch-cache";
+const CACHE_TTL_MS = Number(process.env.LISTING_FETCH_CACHE_TTL_MS || 10 * 60_000);
+const ROBOTS_TTL_MS = 60 * 60_000;
+const ROBOTS_MAX_BYTES = 512 * 1024;
+const ALLOW_PRIVATE = process.env.LISTING_FETCH_ALLOW_PRIVATE === "true";
+
+const TEXT_CONTENT = /^(text\/(html|plain|xml)|application\/(xhtml\+xml|xml|ld\+json))\b/i;
+
+// ---------- Address checks ----------
+function ipv4Parts(address: string) {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+}
+
+function isPrivateIpv4([a, b]: number[]) {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges. */
+export function isPrivateAddress(address: string) {
+  const bare = address.replace(/^\[|\]$/g, "").toLowerCase();
+  const v4 = ipv4Parts(bare);
+  if (v4) return isPrivateIpv4(v4);
+  if (!bare.includes(":")) return false;
+  const mapped = bare.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    const parts = ipv4Parts(mapped[1]);
+    return parts ? isPrivateIpv4(parts) : true;
+  }
+  return (
+    bare === "::" ||
+    bare === "::1" ||
+    /^f[cd][0-9a-f]{2}:/.test(bare) ||
+    /^fe[89ab][0-9a-f]:/.test(bare) ||
+    /^ff[0-9a-f]{2}:/.test(bare) ||
+    bare.startsWith("::ffff:")
+  );
+}
+
+async function resolvePublicTarget(raw: string): Promise<PublicTarget> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`Invalid URL: ${raw}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Blocked URL scheme: ${url.protocol}`);
+  }
+  if (url.username || url.password) throw new Error("Blocked URL with credentials");
+  if (ALLOW_PRIVATE) return { url, addresses: null };
+
+  const host = url.hostname.toLowerCase();
+  if (host === "localhost" || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) {
+    throw new Error(`Blocked internal host: ${host}`);
+  }
+  if (ipv4Parts(host) || host.startsWith("[")) {
+    if (isPrivateAddress(host)) throw new Error(`Blocked private address: ${host}`);
+    return { url, addresses: null };
+  }
+  const addresses = await lookup(host, { all: true });
+  if (!addresses.length) throw new Error(`No addresses found for ${host}`);
+  const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (blocked) throw new Error(`Blocked private address: ${host} resolves to ${blocked.address}`);
+  return { url, addresses };
+}
+
+/**
+ * Rejects non-http(s) URLs and hosts that are or resolve to internal
+ * addresses. The check runs again for every redirect hop.
+ */
+export async function assertPublicUrl(raw: string) {
+  return (await resolvePublicTarget(raw)).url;
+}
+
+// ---------- Pinned connections ----------
+// Statuses whose Response must not have a body.
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options?.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  };
+}
+
+function toResponse(res: IncomingMessage) {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (value != null) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+  }
+  const status = res.statusCode ?? 502;
+  if (NULL_BODY_STATUSES.has(status)) {
+    res.resume();
+    return new Response(null, { status, headers });
+  }
+  return new Response(Readable.toWeb(res), { status, statusText: res.statusMessage, headers });
+}
+
+/**
+ * One request to a checked target, connecting to the addresses the check saw
+ * rather than resolving the host again, so a DNS answer that changes in
+ * between (rebinding) can't point the request at an internal address. TLS
+ * still verifies the certificate for the host name. Redirects are returned,
+ * not followed.
+ */
+function pinnedFetch(target: PublicTarget, init: PublicRequestInit = {}) {
+  const send = target.url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<Response>((resolve, reject) => {
+    const req = send(
+      target.url,
+      {
+        method: init.method ?? "GET",
+        headers: init.headers,
+        signal: init.signal,
+        ...(target.addresses ? { lookup: pinnedLookup(target.addresses) } : {}),
+      },
+      (res) => resolve(toResponse(res)),
+    );
+    req.on("error", reject);
+    req.end(init.body);
+  });
+}
+
+/** Checks `raw` like `assertPublicUrl`, then sends one pinned request to it. */
+export async function fetchPublicUrl(raw: string, init: PublicRequestInit = {}) {
+  return pinnedFetch(await resolvePublicTarget(raw), init);
+}
+
+// ---------- Throttling ----------
+const nextSlot = new Map<string, number>();
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason ?? new Error("Aborted"));
+      },
+      { once: true },
+    );
+  });
+}
+
+// Reserves the host's next free slot synchronously, so concurrent callers
+// queue up behind each other instead of all firing at once.
+async function throttle(host: string, intervalMs: number, signal?: AbortSignal) {
+  const now = Date.now();
+  const at = Math.max(now, nextSlot.get(host) ?? 0);
+  nextSlot.set(host, at + intervalMs);
+  if (at > now) await sleep(at - now, signal);
+}
+
+// ---------- robots.txt ----------
+const robotsCache = new Map<string, RobotsRules>();
+
+function userAgentToken() {
+  const match = USER_AGENT.match(/\b([A-Za-z][\w-]*bot)\b/i) ?? USER_AGENT.match(/^([^\s/]+)/);
+  return (match?.[1] ?? "*").toLowerCase();
+}
+
+/** Parses the group for our user agent (falling back to `*`). */
+export function parseRobots(text: string, token = userAgentToken()): Omit<RobotsRules, "expiresAt" | "disallowAll"> {
+  type Group = { agents: string[]; rules: RobotsRules["rules"]; crawlDelayMs: number };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const match = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: 0 };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay" && Number.isFinite(Number(value))) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const group =
+    groups.find((candidate) => candidate.agents.some((agent) => agent !== "*" && token.includes(agent))) ??
+    groups.find((candidate) => candidate.agents.includes("*"));
+  return { rules: group?.rules ?? [], crawlDelayMs: group?.crawlDelayMs ?? 0 };
+}
+
+function robotsPatternMatches(pattern: string, path: string) {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`).test(path);
+}
+
+/** Longest matching rule wins; on a tie, allow wins. */
+export function robotsAllows(rules: RobotsRules["rules"], path: string) {
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of rules) {
+    if (!robotsPatternMatches(rule.pattern, path)) continue;
+    const length = rule.pattern.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) best = { allow: rule.allow, length };
+  }
+  return best?.allow ?? true;
+}
+
+// Redirects are followed by hand, like page fetches, so each hop is checked.
+async function fetchRobotsTxt(url: URL, signal?: AbortSignal) {
+  let target = await resolvePublicTarget(`${url.origin}/robots.txt`);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    await throttle(target.url.host, MIN_INTERVAL_MS, signal);
+    const response = await pinnedFetch(target, { headers: { "User-Agent": USER_AGENT }, signal: withTimeout(signal) });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    target = await resolvePublicTarget(new URL(location, target.url).href);
+  }
+  throw new Error(`Too many redirects for ${url.origin}/robots.txt`);
+}
+
+async function robotsFor(url: URL, signal?: AbortSignal): Promise<RobotsRules> {
+  const cached = robotsCache.get(url.origin);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  let entry: RobotsRules;
+  try {
+    const response = await fetchRobotsTxt(url, signal);
+    if (response.ok) {
+      // Rules past the cap are ignored rather than read into memory.
+      const { text } = await readLimitedBody(response, ROBOTS_MAX_BYTES);
+      entry = { ...parseRobots(text), disallowAll: false, expiresAt: Date.now() + ROBOTS_TTL_MS };
+    } else {
+      // 4xx: no robots.txt, everything is allowed. 5xx: treat as a full disallow.
+      entry = { rules: [], crawlDelayMs: 0, disallowAll: response.status >= 500, expiresAt: Date.now() + ROBOTS_TTL_MS };
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    entry = { rules: [], crawlDelayMs: 0, disallowAll: true, expiresAt: Date.now() + 5 * 60_000 };
+  }
+  robotsCache.set(url.origin, entry);
+  return entry;
+}
+
+async function assertRobotsAllowed(url: URL, signal?: AbortSignal) {
+  const robots = await robotsFor(url, signal);
+  if (robots.disallowAll || !robotsAllows(robots.rules, `${url.pathname}${url.search}`)) {
+    throw new Error(`Blocked by robots.txt: ${url.href}`);
+  }
+  return robots;
+}
+
+// ---------- Cache ----------
+async function cachePath(url: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(url));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return join(CACHE_DIR, `${hex}.json`);
+}
+
+async function readCache(url: string): Promise<CacheEntry | null> {
+  if (!CACHE_DIR) return null;
+  try {
+    const entry = JSON.parse(await readFile(await cachePath(url), "utf8"));
+    return entry?.url === url && typeof entry.html === "string" ? (entry as CacheEntry) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(entry: CacheEntry) {
+  if (!CACHE_DIR) return;
+  const path = await cachePath(entry.url);
+  const tmp = `${path}.${crypto.randomUUID()}.tmp`;
+  await mkdir(CACHE_DIR, { recursive: true });
+  await writeFile(tmp, JSON.stringify(entry), "utf8");
+  await rename(tmp, path);
+}
+
+// ---------- Fetching ----------
+function withTimeout(signal?: AbortSignal) {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+async function readLimitedBody(response: Response, maxBytes = MAX_BYTES) {
+  const declared = Number(response.headers.get("content-length") ?? 0);
+  if (declared > maxBytes * 4) {
+    await response.body?.cancel();
+    throw new Error(`Page too large (${declared} bytes)`);
+  }
+  const reader = response.body?.getReader();
+  if (!reader) return { text: "", truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (total + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - total));
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    total += value.length;
+  }
+  const bytes = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { text: new TextDecoder().decode(bytes), truncated };
+}
+
+/**
+ * Fetches a listing page the way a well-behaved crawler would: public http(s)
+ * hosts only, robots.txt honoured (including Crawl-delay), one request per
+ * host per `LISTING_FETCH_MIN_INTERVAL_MS`, a timeout and a body size cap, and
+ * redirects followed by hand so every hop is re-checked. Successful pages are
+ * cached on disk and revalidated with ETag / Last-Modified, so repeated runs
+ * don't hit the same site again.
+ */
+export async function politeFetch(rawUrl: string, options: PoliteFetchOptions = {}): Promise<FetchedPage> {
+  const cached = await readCache(rawUrl);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return { status: cached.status, ok: true, html: cached.html, url: cached.finalUrl, cache: "hit", truncated: cached.truncated };
+  }
+
+  let target = await resolvePublicTarget(rawUrl);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const current = target.url;
+    const robots = await assertRobotsAllowed(current, options.signal);
+    await throttle(current.host, Math.max(MIN_INTERVAL_MS, robots.crawlDelayMs), options.signal);
+
+    const conditional = hop === 0 && cached;
+    const response = await pinnedFetch(target, {
+      method: "GET",
+      signal: withTimeout(options.signal),
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        ...(conditional && cached.etag ? { "If-None-Match": cached.etag } : {}),
+        ...(conditional && cached.lastModified ? { "If-Modified-Since": cached.lastModified } : {}),
+      },
+    });
+
+    if (response.status === 304 && cached) {
+      await response.body?.cancel();
+      await writeCache({ ...cached, fetchedAt: Date.now() });
+      return { status: cached.status, ok: true, html: cached.html, url: cached.finalUrl, cache: "revalidated", truncated: cached.truncated };
+    }
+
+    if (response.status >= 300 && response.status < 400 && response.headers.get("location")) {
+      await response.body?.cancel();
+      target = await resolvePublicTarget(new URL(response.headers.get("location")!, current).href);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { status: response.status, ok: false, html: "", url: current.href, cache: CACHE_DIR ? "miss" : "off", truncated: false };
+    }
+
+    const contentType = response.headers.get("content-type") ?? "text/html";
+    if (!TEXT_CONTENT.test(contentType)) {
+      await response.body?.cancel();
+      throw new Error(`Unsupported content type: ${contentType.split(";")[0]}`);
+    }
+
+    const body = await readLimitedBody(response);
+    await writeCache({
+      url: rawUrl,
+      finalUrl: current.href,
+      status: response.status,
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      fetchedAt: Date.now(),
+      truncated: body.truncated,
+      html: body.text,
+    }).catch(() => {});
+    return {
+      status: response.status,
+      ok: true,
+      html: body.text,
+      url: current.href,
+      cache: CACHE_DIR ? "miss" : "off",
+      truncated: body.truncated,
+    };
+  }
+  throw new Error(`Too many redirects for ${rawUrl}`);
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { classifyPropertyType, parseCriteriaAmount } from "./filters.js";
+
+test("property types with accented keywords", () => {
+  assert.equal(classifyPropertyType("Copropriété"), "condo");
+  assert.equal(classifyPropertyType("Jumelé"), "house");
+  assert.equal(classifyPropertyType("Maison à étages avec grand terrain"), "house");
+  assert.equal(classifyPropertyType("Terrain vacant"), "land");
+  assert.equal(classifyPropertyType("Duplex"), "multiplex");
+  assert.equal(classifyPropertyType("Résidentiel"), null);
+});
+
+test("criteria amounts", () => {
+  assert.equal(parseCriteriaAmount("450000"), 450_000);
+  assert.equal(parseCriteriaAmount("450k"), 450_000);
+  assert.equal(parseCriteriaAmount("$1.2M"), 1_200_000);
+  assert.equal(parseCriteriaAmount("1,2M"), 1_200_000);
+  assert.equal(parseCriteriaAmount("1,25 M"), 1_250_000);
+  assert.equal(parseCriteriaAmount("1,250,000"), 1_250_000);
+  assert.equal(parseCriteriaAmount("1 250 000 $"), 1_250_000);
+  assert.equal(parseCriteriaAmount("450 000,00 $"), 450_000);
+});
@@ -0,0 +1,210 @@
+import type { ListingCriteria } from "./agent.js";
+import { distanceKm, findPlace, foldPlaceName, resolveCenter, resolveLocation, type ListingLocation } from "./geo.js";
+import type { NormalizedListing } from "./main.js";
+
+export type RankedListing = NormalizedListing & {
+  matchScore: number;
+};
+
+export type ExcludedListing = {
+  listing: NormalizedListing;
+  reasons: string[];
+};
+
+export type FilterResult = {
+  listings: RankedListing[];
+  excluded: ExcludedListing[];
+};
+
+type Check = {
+  name: string;
+  /** true = passes, false = fails (with reason), null = listing lacks the data */
+  result: boolean | null;
+  reason?: string;
+};
+
+// ---------- Criteria parsing ----------
+/** Reads "450000", "450k", "$1.2M", "1,2 M" or "1 250 000 $" into a number. */
+export function parseCriteriaAmount(value: string) {
+  // A comma before one or two digits is a French decimal ("1,2M"), otherwise
+  // a thousands separator ("1,250,000").
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s\u00a0$]/g, "")
+    .replace(/,(\d{1,2})(?!\d)/, ".$1")
+    .replace(/,/g, "");
+  const match = text.match(/^(\d+(?:\.\d+)?)(k|m)?/);
+  if (!match) return null;
+  const multiplier = match[2] === "k" ? 1_000 : match[2] === "m" ? 1_000_000 : 1;
+  const n = Number(match[1]) * multiplier;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function parseMinimum(value: string) {
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+// ---------- Property types ----------
+// `\b` only knows ASCII letters, so "copropriété" or "jumelé" would never
+// end a word; these boundaries are Unicode-aware.
+function keywords(alternatives: string) {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives})(?![\\p{L}\\p{N}])`, "iu");
+}
+
+// Keyword → TYPE_OPTIONS value. Order matters: "condo townhouse" is a condo,
+// "duplex house" is a multiplex, "maison avec grand terrain" is a house.
+const TYPE_KEYWORDS: Array<[string, RegExp]> = [
+  ["multiplex", keywords("multiplex|plex|duplex|triplex|quadruplex|quintuplex|multi-?family|multilogement|immeuble à revenus|revenue property|income property")],
+  ["condo", keywords("condo|condominium|copropriété|co-?ownership|divided co-?ownership|apartment|appartement|loft|penthouse")],
+  ["commercial", keywords("commercial|commerce|retail|office|bureau|industrial|industriel|bâtisse commerciale")],
+  ["house", keywords("house|maison|bungalow|cottage|split[- ]level|semi-detached|jumelé|detached|townhouse|maison de ville|en rangée|single[- ]family|unifamiliale|residence|résidence")],
+  ["land", keywords("land|lot|terrain|vacant")],
+];
+
+export function classifyPropertyType(value: string | null | undefined) {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  if (["house", "condo", "multiplex", "land", "commercial"].includes(trimmed)) return trimmed;
+  return TYPE_KEYWORDS.find(([, pattern]) => pattern.test(value))?.[0] ?? null;
+}
+
+// ---------- Geography ----------
+/**
+ * Greater Montreal (CMM) check backed by the gazetteer in geo.ts: true inside,
+ * false outside, null when the address is too vague to tell.
+ */
+export function greaterMontrealCheck(address: string | null): boolean | null {
+  return resolveLocation(address)?.inGreaterMontreal ?? null;
+}
+
+function parseBoroughFilter(value: string) {
+  return value
+    .split(/[,;]/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => ({ name, place: findPlace(name), key: foldPlaceName(name) }));
+}
+
+function matchesBorough(location: ListingLocation, wanted: ReturnType<typeof parseBoroughFilter>) {
+  const names = [location.borough, location.city].filter((name): name is string => Boolean(name));
+  return wanted.some(({ place, key }) =>
+    place ? names.includes(place.name) : names.some((name) => foldPlaceName(name) === key),
+  );
+}
+
+// ---------- Filtering ----------
+function runChecks(listing: NormalizedListing, criteria: ListingCriteria): Check[] {
+  const checks: Check[] = [];
+  const priceMin = criteria.priceMin ? parseCriteriaAmount(criteria.priceMin) : null;
+  const priceMax = criteria.priceMax ? parseCriteriaAmount(criteria.priceMax) : null;
+  const beds = criteria.beds ? parseMinimum(criteria.beds) : null;
+  const baths = criteria.baths ? parseMinimum(criteria.baths) : null;
+  const type = classifyPropertyType(criteria.type);
+  const boroughs = criteria.boroughs ? parseBoroughFilter(criteria.boroughs) : [];
+  const radiusKm = criteria.radiusKm ? parseMinimum(criteria.radiusKm) : null;
+  const center = radiusKm != null ? resolveCenter(criteria.center || criteria.location) : null;
+  const maxMonthly = criteria.maxMonthlyPayment ? parseCriteriaAmount(criteria.maxMonthlyPayment) : null;
+
+  if (priceMin != null) {
+    checks.push({
+      name: "priceMin",
+      result: listing.price == null ? null : listing.price >= priceMin,
+      reason: `price ${listing.price} is below priceMin ${priceMin}`,
+    });
+  }
+  if (priceMax != null) {
+    checks.push({
+      name: "priceMax",
+      result: listing.price == null ? null : listing.price <= priceMax,
+      reason: `price ${listing.price} is above priceMax ${priceMax}`,
+    });
+  }
+  if (beds != null) {
+    checks.push({
+      name: "beds",
+      result: listing.beds == null ? null : listing.beds >= beds,
+      reason: `${listing.beds} bedroom(s), ${beds}+ requested`,
+    });
+  }
+  if (baths != null) {
+    checks.push({
+      name: "baths",
+      result: listing.baths == null ? null : listing.baths >= baths,
+      reason: `${listing.baths} bathroom(s), ${baths}+ requested`,
+    });
+  }
+  if (type) {
+    const listingType = classifyPropertyType(listing.type);
+    checks.push({
+      name: "type",
+      result: listingType == null ? null : listingType === type,
+      reason: `type "${listing.type}" is not ${type}`,
+    });
+  }
+  const location = listing.location ?? resolveLocation(listing.address);
+  checks.push({
+    name: "location",
+    result: location?.inGreaterMontreal ?? null,
+    reason: `address "${listing.address}" is outside the Greater Montreal Area`,
+  });
+  if (boroughs.length) {
+    checks.push({
+      name: "boroughs",
+      result: location && (location.borough || location.city) ? matchesBorough(location, boroughs) : null,
+      reason: `"${location?.borough ?? location?.city}" is not in ${boroughs.map((b) => b.name).join(", ")}`,
+    });
+  }
+  if (radiusKm != null && center) {
+    const distance =
+      location?.lat != null && location.lon != null ? distanceKm(center, { lat: location.lat, lon: location.lon }) : null;
+    checks.push({
+      name: "radius",
+      result: distance == null ? null : distance <= radiusKm,
+      reason: `about ${Math.round(distance ?? 0)} km from ${center.name}, ${radiusKm} km requested`,
+    });
+  }
+  if (maxMonthly != null) {
+    const monthly = listing.affordability?.monthlyTotal ?? null;
+    checks.push({
+      name: "maxMonthlyPayment",
+      result: monthly == null ? null : monthly <= maxMonthly,
+      reason: `estimated monthly cost ${monthly} is above maxMonthlyPayment ${maxMonthly}`,
+    });
+  }
+  return checks;
+}
+
+// Passing checks count fully, unknown ones half. Verified listings and a real
+// MLS number get a small bonus so they sort ahead of otherwise equal matches.
+function scoreListing(listing: NormalizedListing, checks: Check[]) {
+  const base = checks.length
+    ? checks.reduce((sum, check) => sum + (check.result === true ? 1 : 0.5), 0) / checks.length
+    : 1;
+  const bonus = (listing.verified ? 0.05 : 0) + (/\d/.test(listing.mls) ? 0.05 : 0);
+  return Math.round(Math.min(1, base * 0.9 + bonus) * 100) / 100;
+}
+
+/**
+ * Enforces the workflow criteria on normalized listings. Listings that fail a
+ * check move to `excluded` with the reasons; listings missing the data for a
+ * check are kept but score lower. Kept listings are sorted by `matchScore`.
+ */
+export function filterAndRankListings(listings: NormalizedListing[], criteria: ListingCriteria): FilterResult {
+  const kept: RankedListing[] = [];
+  const excluded: ExcludedListing[] = [];
+
+  for (const listing of listings) {
+    const checks = runChecks(listing, criteria);
+    const failures = checks.filter((check) => check.result === false);
+    if (failures.length) {
+      excluded.push({ listing, reasons: failures.map((check) => check.reason ?? check.name) });
+    } else {
+      kept.push({ ...listing, matchScore: scoreListing(listing, checks) });
+    }
+  }
+
+  kept.sort((a, b) => b.matchScore - a.matchScore);
+  return { listings: kept, excluded };
+}
@@ -0,0 +1,374 @@
+export type Place = {
+  name: string;
+  kind: "municipality" | "borough";
+  /** Municipality a borough / district belongs to. */
+  parent?: string;
+  lat: number;
+  lon: number;
+  aliases?: string[];
+};
+
+export type ParsedAddress = {
+  street: string | null;
+  unit: string | null;
+  city: string | null;
+  borough: string | null;
+  province: string | null;
+  postalCode: string | null;
+};
+
+export type ListingLocation = ParsedAddress & {
+  lat: number | null;
+  lon: number | null;
+  /** What the coordinates are the centroid of. */
+  precision: "borough" | "municipality" | null;
+  inGreaterMontreal: boolean | null;
+};
+
+// ---------- Gazetteer ----------
+// Communauté métropolitaine de Montréal (CMM) municipalities plus Montreal
+// boroughs and Laval / Longueuil districts. Coordinates are approximate
+// centroids, good enough for radius filters of a few kilometres.
+const BOROUGHS: Place[] = [
+  { name: "Ahuntsic-Cartierville", kind: "borough", parent: "Montréal", lat: 45.55, lon: -73.67, aliases: ["Ahuntsic", "Cartierville"] },
+  { name: "Anjou", kind: "borough", parent: "Montréal", lat: 45.61, lon: -73.56 },
+  { name: "Côte-des-Neiges–Notre-Dame-de-Grâce", kind: "borough", parent: "Montréal", lat: 45.48, lon: -73.62, aliases: ["Côte-des-Neiges", "Notre-Dame-de-Grâce", "NDG", "CDN"] },
+  { name: "Lachine", kind: "borough", parent: "Montréal", lat: 45.44, lon: -73.7 },
+  { name: "LaSalle", kind: "borough", parent: "Montréal", lat: 45.43, lon: -73.63 },
+  { name: "Le Plateau-Mont-Royal", kind: "borough", parent: "Montréal", lat: 45.52, lon: -73.58, aliases: ["Plateau", "Plateau-Mont-Royal", "Mile End", "Mile-End"] },
+  { name: "Le Sud-Ouest", kind: "borough", parent: "Montréal", lat: 45.47, lon: -73.58, aliases: ["Sud-Ouest", "Saint-Henri", "Griffintown", "Pointe-Saint-Charles", "Petite-Bourgogne"] },
+  { name: "L'Île-Bizard–Sainte-Geneviève", kind: "borough", parent: "Montréal", lat: 45.49, lon: -73.89, aliases: ["Île-Bizard", "Sainte-Geneviève"] },
+  { name: "Mercier–Hochelaga-Maisonneuve", kind: "borough", parent: "Montréal", lat: 45.57, lon: -73.53, aliases: ["Hochelaga", "Hochelaga-Maisonneuve", "HoMa", "Mercier-Est", "Mercier-Ouest"] },
+  { name: "Montréal-Nord", kind: "borough", parent: "Montréal", lat: 45.6, lon: -73.63 },
+  { name: "Outremont", kind: "borough", parent: "Montréal", lat: 45.52, lon: -73.61 },
+  { name: "Pierrefonds-Roxboro", kind: "borough", parent: "Montréal", lat: 45.49, lon: -73.85, aliases: ["Pierrefonds", "Roxboro"] },
+  { name: "Rivière-des-Prairies–Pointe-aux-Trembles", kind: "borough", parent: "Montréal", lat: 45.65, lon: -73.53, aliases: ["Rivière-des-Prairies", "Pointe-aux-Trembles", "RDP"] },
+  { name: "Rosemont–La Petite-Patrie", kind: "borough", parent: "Montréal", lat: 45.55, lon: -73.58, aliases: ["Rosemont", "Petite-Patrie", "La Petite-Patrie"] },
+  { name: "Saint-Laurent", kind: "borough", parent: "Montréal", lat: 45.5, lon: -73.7 },
+  { name: "Saint-Léonard", kind: "borough", parent: "Montréal", lat: 45.59, lon: -73.6 },
+  { name: "Verdun", kind: "borough", parent: "Montréal", lat: 45.45, lon: -73.57, aliases: ["Île-des-Sœurs", "Île-des-Soeurs", "Nuns' Island", "Nuns Island"] },
+  { name: "Ville-Marie", kind: "borough", parent: "Montréal", lat: 45.5, lon: -73.57, aliases: ["Downtown Montreal", "Centre-ville", "Vieux-Montréal", "Old Montreal"] },
+  { name: "Villeray–Saint-Michel–Parc-Extension", kind: "borough", parent: "Montréal", lat: 45.56, lon: -73.62, aliases: ["Villeray", "Saint-Michel", "Parc-Extension", "Parc-Ex"] },
+  { name: "Chomedey", kind: "borough", parent: "Laval", lat: 45.54, lon: -73.75 },
+  { name: "Laval-des-Rapides", kind: "borough", parent: "Laval", lat: 45.555, lon: -73.7 },
+  { name: "Pont-Viau", kind: "borough", parent: "Laval", lat: 45.565, lon: -73.69 },
+  { name: "Duvernay", kind: "borough", parent: "Laval", lat: 45.59, lon: -73.67 },
+  { name: "Vimont", kind: "borough", parent: "Laval", lat: 45.605, lon: -73.72 },
+  { name: "Auteuil", kind: "borough", parent: "Laval", lat: 45.63, lon: -73.75 },
+  { name: "Sainte-Rose", kind: "borough", parent: "Laval", lat: 45.61, lon: -73.79 },
+  { name: "Fabreville", kind: "borough", parent: "Laval", lat: 45.575, lon: -73.81 },
+  { name: "Sainte-Dorothée", kind: "borough", parent: "Laval", lat: 45.53, lon: -73.81 },
+  { name: "Laval-Ouest", kind: "borough", parent: "Laval", lat: 45.55, lon: -73.86 },
+  { name: "Laval-sur-le-Lac", kind: "borough", parent: "Laval", lat: 45.52, lon: -73.87 },
+  { name: "Saint-François", kind: "borough", parent: "Laval", lat: 45.66, lon: -73.6 },
+  { name: "Saint-Vincent-de-Paul", kind: "borough", parent: "Laval", lat: 45.62, lon: -73.65 },
+  { name: "Vieux-Longueuil", kind: "borough", parent: "Longueuil", lat: 45.535, lon: -73.51 },
+  { name: "Saint-Hubert", kind: "borough", parent: "Longueuil", lat: 45.5, lon: -73.42 },
+  { name: "Greenfield Park", kind: "borough", parent: "Longueuil", lat: 45.485, lon: -73.47 },
+  { name: "Lachenaie", kind: "borough", parent: "Terrebonne", lat: 45.72, lon: -73.52 },
+  { name: "La Plaine", kind: "borough", parent: "Terrebonne", lat: 45.76, lon: -73.73 },
+  { name: "Le Gardeur", kind: "borough", parent: "Repentigny", lat: 45.78, lon: -73.43 },
+];
+
+const MUNICIPALITIES: Place[] = [
+  ["Montréal", 45.5, -73.57, ["Montreal", "Ville de Montréal"]],
+  ["Westmount", 45.485, -73.6],
+  ["Mont-Royal", 45.515, -73.645, ["Town of Mount Royal", "Ville Mont-Royal", "TMR"]],
+  ["Côte-Saint-Luc", 45.465, -73.665],
+  ["Hampstead", 45.48, -73.64],
+  ["Montréal-Ouest", 45.453, -73.65, ["Montreal West"]],
+  ["Montréal-Est", 45.63, -73.51, ["Montreal East"]],
+  ["Dorval", 45.45, -73.75],
+  ["Pointe-Claire", 45.45, -73.82],
+  ["Kirkland", 45.45, -73.87],
+  ["Beaconsfield", 45.43, -73.87],
+  ["Baie-D'Urfé", 45.415, -73.915],
+  ["Sainte-Anne-de-Bellevue", 45.405, -73.95],
+  ["Senneville", 45.43, -73.96],
+  ["Dollard-des-Ormeaux", 45.49, -73.82, ["DDO"]],
+  ["L'Île-Dorval", 45.43, -73.74],
+  ["Laval", 45.57, -73.72],
+  ["Longueuil", 45.53, -73.51],
+  ["Brossard", 45.46, -73.465],
+  ["Saint-Lambert", 45.5, -73.5],
+  ["Boucherville", 45.59, -73.44],
+  ["Saint-Bruno-de-Montarville", 45.53, -73.35, ["Saint-Bruno"]],
+  ["Sainte-Julie", 45.585, -73.33],
+  ["Varennes", 45.68, -73.43],
+  ["Verchères", 45.78, -73.35],
+  ["Contrecoeur", 45.85, -73.24, ["Contrecœur"]],
+  ["Calixa-Lavallée", 45.75, -73.28],
+  ["Saint-Amable", 45.65, -73.3],
+  ["La Prairie", 45.42, -73.5],
+  ["Candiac", 45.39, -73.52],
+  ["Delson", 45.37, -73.55],
+  ["Saint-Constant", 45.37, -73.57],
+  ["Sainte-Catherine", 45.4, -73.58],
+  ["Saint-Philippe", 45.36, -73.48],
+  ["Saint-Mathieu", 45.31, -73.52],
+  ["Saint-Isidore", 45.31, -73.68],
+  ["Châteauguay", 45.38, -73.75],
+  ["Mercier", 45.32, -73.75],
+  ["Léry", 45.35, -73.8],
+  ["Beauharnois", 45.31, -73.87],
+  ["Chambly", 45.45, -73.29],
+  ["Carignan", 45.45, -73.3],
+  ["Beloeil", 45.57, -73.2, ["Belœil"]],
+  ["Mont-Saint-Hilaire", 45.56, -73.19],
+  ["McMasterville", 45.55, -73.23],
+  ["Otterburn Park", 45.54, -73.21],
+  ["Saint-Basile-le-Grand", 45.53, -73.28],
+  ["Saint-Mathieu-de-Beloeil", 45.58, -73.24],
+  ["Saint-Jean-Baptiste", 45.52, -73.11],
+  ["Terrebonne", 45.7, -73.65],
+  ["Mascouche", 45.75, -73.6],
+  ["Repentigny", 45.74, -73.45],
+  ["Charlemagne", 45.72, -73.48],
+  ["L'Assomption", 45.83, -73.43],
+  ["Saint-Sulpice", 45.83, -73.35],
+  ["L'Épiphanie", 45.85, -73.49],
+  ["Blainville", 45.67, -73.88],
+  ["Boisbriand", 45.62, -73.84],
+  ["Sainte-Thérèse", 45.64, -73.83],
+  ["Rosemère", 45.64, -73.8],
+  ["Lorraine", 45.63, -73.78],
+  ["Bois-des-Filion", 45.67, -73.76],
+  ["Sainte-Anne-des-Plaines", 45.76, -73.81],
+  ["Mirabel", 45.65, -74.08],
+  ["Saint-Eustache", 45.56, -73.9],
+  ["Deux-Montagnes", 45.54, -73.89],
+  ["Sainte-Marthe-sur-le-Lac", 45.53, -73.94],
+  ["Pointe-Calumet", 45.5, -73.97],
+  ["Saint-Joseph-du-Lac", 45.54, -74.0],
+  ["Oka", 45.46, -74.09],
+  ["Saint-Placide", 45.53, -74.2],
+  ["Vaudreuil-Dorion", 45.4, -74.03, ["Vaudreuil"]],
+  ["Vaudreuil-sur-le-Lac", 45.42, -74.04],
+  ["L'Île-Perrot", 45.38, -73.95],
+  ["Notre-Dame-de-l'Île-Perrot", 45.36, -73.93],
+  ["Pincourt", 45.38, -73.98],
+  ["Terrasse-Vaudreuil", 45.39, -73.99],
+  ["L'Île-Cadieux", 45.43, -74.02],
+  ["Hudson", 45.45, -74.15],
+  ["Saint-Lazare", 45.4, -74.13],
+].map(([name, lat, lon, aliases]) => ({
+  name: name as string,
+  kind: "municipality" as const,
+  lat: lat as number,
+  lon: lon as number,
+  aliases: aliases as string[] | undefined,
+}));
+
+// Well-known places outside the CMM, so "Gatineau" is rejected rather than
+// left undecided.
+const OUTSIDE_PLACES = [
+  "Quebec City", "Ville de Québec", "Lévis", "Gatineau", "Sherbrooke", "Trois-Rivières", "Saguenay",
+  "Drummondville", "Granby", "Saint-Hyacinthe", "Saint-Jean-sur-Richelieu", "Saint-Jérôme", "Joliette",
+  "Rimouski", "Sorel-Tracy", "Valleyfield", "Salaberry-de-Valleyfield", "Ottawa", "Toronto", "Ontario",
+];
+
+// Forward sortation areas (first three postal-code characters) inside the CMM.
+// Every H FSA is on Montreal island or in Laval. Urban J FSAs are listed
+// explicitly (Saint-Jérôme's J7Y/J7Z, for one, is outside); rural J0 FSAs
+// straddle the boundary and decide nothing.
+const INSIDE_J_FSAS = new Set([
+  "J3E", "J3G", "J3H", "J3L", "J3N", "J3V", "J3X", "J3Y",
+  "J4B", "J4G", "J4H", "J4J", "J4K", "J4L", "J4M", "J4N", "J4P", "J4R", "J4S", "J4T", "J4V", "J4W", "J4X", "J4Y", "J4Z",
+  "J5A", "J5B", "J5C", "J5R",
+  "J6A", "J6J", "J6K", "J6N", "J6R", "J6V", "J6W", "J6X", "J6Y", "J6Z",
+  "J7A", "J7B", "J7C", "J7E", "J7G", "J7H", "J7J", "J7K", "J7L", "J7M", "J7N", "J7P", "J7R", "J7T", "J7V",
+]);
+
+export function foldPlaceName(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/œ/g, "oe")
+    .replace(/\b(st|ste)[-. ]/g, (match) => (match.startsWith("ste") ? "sainte " : "saint "))
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+type IndexedPlace = Place & { keys: string[] };
+
+const PLACES: IndexedPlace[] = [...BOROUGHS, ...MUNICIPALITIES].map((place) => ({
+  ...place,
+  keys: [place.name, ...(place.aliases ?? [])].map(foldPlaceName),
+}));
+const OUTSIDE_KEYS = OUTSIDE_PLACES.map(foldPlaceName);
+
+function containsKey(haystack: string, key: string) {
+  return ` ${haystack} `.includes(` ${key} `);
+}
+
+/** Longest gazetteer entry named in the text (so "Montréal-Nord" beats "Montréal"). */
+export function findPlace(text: string, kind?: Place["kind"]): Place | null {
+  const folded = foldPlaceName(text);
+  let best: { place: IndexedPlace; length: number } | null = null;
+  for (const place of PLACES) {
+    if (kind && place.kind !== kind) continue;
+    for (const key of place.keys) {
+      if (containsKey(folded, key) && (!best || key.length > best.length)) best = { place, length: key.length };
+    }
+  }
+  return best?.place ?? null;
+}
+
+// A street word, with its "de la" / "du" particle, right before a place name
+// makes it a street: "rue Sainte-Catherine", "boulevard de la Côte-Vertu".
+const STREET_BEFORE =
+  /\b(?:rue|boulevard|boul|bd|blvd|avenue|av|ave|chemin|ch|rang|route|montee|promenade|croissant|terrasse|place|street|road)(?: (?:de la|de l|du|des|de|d|l))?$/;
+
+/**
+ * Every gazetteer entry named in the text, in reading order. Overlapping
+ * matches keep the longest, so "Laval-des-Rapides" doesn't also yield Laval.
+ * Names used as street names are skipped.
+ */
+export function findPlaces(text: string): Place[] {
+  const folded = ` ${foldPlaceName(text)} `;
+  const hits: Array<{ place: IndexedPlace; start: number; end: number }> = [];
+  for (const place of PLACES) {
+    for (const key of place.keys) {
+      for (let at = folded.indexOf(` ${key} `); at !== -1; at = folded.indexOf(` ${key} `, at + 1)) {
+        hits.push({ place, start: at, end: at + key.length + 1 });
+      }
+    }
+  }
+  const kept: typeof hits = [];
+  for (const hit of hits.sort((a, b) => b.end - b.start - (a.end - a.start))) {
+    if (!kept.some((other) => hit.start < other.end && other.start < hit.end)) kept.push(hit);
+  }
+  const places = kept
+    .filter((hit) => !STREET_BEFORE.test(folded.slice(0, hit.start)))
+    .sort((a, b) => a.start - b.start)
+    .map(({ place: { keys, ...place } }) => place);
+  return places.filter((place, index) => places.findIndex((other) => other.name === place.name) === index);
+}
+
+export function listPlaces() {
+  return PLACES.map(({ keys, ...place }) => place);
+}
+
+// ---------- Address parsing ----------
+const POSTAL_CODE = /\b([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?(\d[ABCEGHJ-NPRSTV-Z]\d)\b/i;
+const PROVINCE = /\b(QC|Qu[ée]bec|ON|Ontario)\b\.?/g;
+const UNIT = /(?:\b(?:app(?:artement)?|apt|unit[ée]?|suite|bureau)\.?\s+|#\s*)([\w-]+)/i;
+
+/**
+ * Splits a free-form listing address ("5-1234 Rue X, Montréal (Rosemont),
+ * QC H1X 1X1") into street, unit, city, borough, province and postal code.
+ */
+export function parseAddress(address: string | null | undefined): ParsedAddress {
+  const empty: ParsedAddress = { street: null, unit: null, city: null, borough: null, province: null, postalCode: null };
+  if (!address || !address.trim()) return empty;
+
+  let rest = address.replace(/\s+/g, " ").trim();
+  const result: ParsedAddress = { ...empty };
+
+  const postal = rest.match(POSTAL_CODE);
+  if (postal) {
+    result.postalCode = `${postal[1]} ${postal[2]}`.toUpperCase();
+    rest = rest.replace(postal[0], " ");
+  }
+  // Last match: "Québec, QC" is a city followed by the province.
+  const province = [...rest.matchAll(PROVINCE)].pop();
+  if (province?.index != null) {
+    result.province = /^(ON|Ontario)$/i.test(province[1]) ? "ON" : "QC";
+    rest = `${rest.slice(0, province.index)} ${rest.slice(province.index + province[0].length)}`;
+  }
+
+  const parenthesized = rest.match(/\(([^)]+)\)/);
+  const parts = rest
+    .replace(/\([^)]*\)/g, " ")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  // "845, rue Saint-Charles Est": the civic number has its own comma
+  if (parts.length > 1 && /^(?:\w{1,5}-)?\d+[a-z]?$/i.test(parts[0])) parts.splice(0, 2, `${parts[0]} ${parts[1]}`);
+
+  // "Laval, QC" has no street part
+  let street = parts[0] && !/\d/.test(parts[0]) && findPlace(parts[0]) ? null : (parts.shift() ?? null);
+  const unitPart = parts.find((part) => UNIT.test(part) && !/\d{3,}\s+\D/.test(part));
+  if (unitPart) {
+    result.unit = unitPart.match(UNIT)?.[1] ?? null;
+    parts.splice(parts.indexOf(unitPart), 1);
+  }
+  if (street) {
+    // Quebec style "unit-civic street": 5-1234 Rue X
+    const hyphenated = street.match(/^(\w{1,5})-(\d+\w?)\s+(.*)$/);
+    if (hyphenated && !result.unit) {
+      result.unit = hyphenated[1];
+      street = `${hyphenated[2]} ${hyphenated[3]}`;
+    }
+    const inline = street.match(UNIT);
+    if (inline && !result.unit) {
+      result.unit = inline[1];
+      street = street.replace(inline[0], "").trim();
+    }
+  }
+  result.street = street || null;
+
+  const cityText = parts.join(", ");
+  const borough = findPlace(`${parenthesized?.[1] ?? ""}, ${cityText}`, "borough");
+  const municipality = findPlace(cityText, "municipality") ?? (borough?.parent ? findPlace(borough.parent) : null);
+  result.borough = borough?.name ?? (parenthesized ? parenthesized[1].trim() : null);
+  result.city = municipality?.name ?? borough?.parent ?? (parts[0] || null);
+  return result;
+}
+
+// ---------- Region check ----------
+export function fsaInGreaterMontreal(postalCode: string | null): boolean | null {
+  if (!postalCode) return null;
+  const fsa = postalCode.replace(/\s/g, "").slice(0, 3).toUpperCase();
+  if (fsa.startsWith("H")) return true;
+  if (INSIDE_J_FSAS.has(fsa)) return true;
+  if (fsa.startsWith("J0")) return null;
+  return false;
+}
+
+/** Parses an address and places it on the gazetteer. */
+export function resolveLocation(address: string | null | undefined): ListingLocation | null {
+  if (!address || !address.trim()) return null;
+  const parsed = parseAddress(address);
+  const borough = parsed.borough ? findPlace(parsed.borough, "borough") : null;
+  const municipality = parsed.city ? findPlace(parsed.city, "municipality") : null;
+  const anchor = borough ?? municipality;
+
+  // A gazetteer hit with a postal code from another region (e.g. "Laval" next
+  // to G1R) stays rejected. An unlisted J FSA next to a CMM municipality is
+  // more likely a gap in INSIDE_J_FSAS, so the name wins there.
+  let inGreaterMontreal = fsaInGreaterMontreal(parsed.postalCode);
+  if (anchor && (inGreaterMontreal == null || (inGreaterMontreal === false && parsed.postalCode?.startsWith("J")))) {
+    inGreaterMontreal = true;
+  }
+  if (inGreaterMontreal == null) {
+    const folded = foldPlaceName(address);
+    if (parsed.province === "ON" || OUTSIDE_KEYS.some((key) => containsKey(folded, key))) inGreaterMontreal = false;
+  }
+  return {
+    ...parsed,
+    lat: anchor?.lat ?? null,
+    lon: anchor?.lon ?? null,
+    precision: borough ? "borough" : municipality ? "municipality" : null,
+    inGreaterMontreal,
+  };
+}
+
+// ---------- Distance ----------
+export function distanceKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/** "45.52,-73.58" or a gazetteer place name. */
+export function resolveCenter(value: string | null | undefined) {
+  if (!value) return null;
+  const coords = value.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (coords) return { lat: Number(coords[1]), lon: Number(coords[2]), name: value.trim() };
+  const place = findPlace(value);
+  return place ? { lat: place.lat, lon: place.lon, name: place.name } : null;
+}
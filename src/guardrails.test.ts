@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { runGuardrails } from "./guardrails.js";
+
+const config = {
+  guardrails: [
+    { name: "Contains PII", config: { block: true, entities: ["US_BANK_NUMBER"] } },
+    { name: "Moderation", config: { categories: ["sexual/minors"] } },
+  ],
+};
+
+async function tripped(input: string) {
+  const results = await runGuardrails(input, config, {});
+  return results.filter((result) => result.tripwireTriggered).map((result) => result.info?.guardrail_name);
+}
+
+test("bank numbers need an account label right before them", async () => {
+  assert.deepEqual(await tripped("Condo near transit, Centris 12345678"), []);
+  assert.deepEqual(await tripped("Bank account near the listing, MLS 23456789"), []);
+  assert.deepEqual(await tripped("My account number: 123456789012"), ["Contains PII"]);
+  assert.deepEqual(await tripped("Voici mon numéro de compte 12345678"), ["Contains PII"]);
+});
+
+test("nue-propriété sales aren't flagged as sexual content", async () => {
+  assert.deepEqual(await tripped("Maison pour famille avec enfants, vente en nue-propriété à Laval"), []);
+  assert.deepEqual(await tripped("nude photos of a child"), ["Moderation"]);
+});
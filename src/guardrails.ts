@@ -1,18 +1,202 @@
+import { checkHallucination } from "./hallucination.js";
+import { checkJailbreak } from "./injection.js";
+
 export type GuardrailResult = {
   tripwireTriggered?: boolean;
   info?: Record<string, unknown>;
   executionFailed?: boolean;
 };
 
+type GuardrailSpec = {
+  name: string;
+  config?: Record<string, unknown>;
+};
+
+export type GuardrailCheck = (input: string, config: Record<string, unknown>, context: unknown) => GuardrailResult;
+
+// ---------- PII ----------
+type PiiDetector = (input: string) => string[];
+
+const DEFAULT_PII_ENTITIES = ["CREDIT_CARD", "US_BANK_NUMBER", "US_PASSPORT", "US_SSN"];
+
+function digitsOnly(value: string) {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(digits: string) {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i -= 1) {
+    let d = Number(digits[i]);
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+function hasContext(input: string, index: number, pattern: RegExp, window = 40) {
+  const before = input.slice(Math.max(0, index - window), index);
+  return pattern.test(before);
+}
+
+function collect(input: string, pattern: RegExp, accept: (match: RegExpExecArray) => boolean) {
+  const found: string[] = [];
+  for (const match of input.matchAll(pattern)) {
+    if (accept(match as RegExpExecArray)) found.push(match[0].trim());
+  }
+  return found;
+}
+
+// Anchored: the account label has to sit right before the digits, so listing
+// numbers ("Centris 12345678") elsewhere in the sentence aren't caught.
+const BANK_LABEL = /\b(account|acct|bank|routing|iban|compte|bancaire|institution)(\s+(number|no\.?|num[ée]ro|n°))?\s*[:#]?\s*$/i;
+const PASSPORT_CONTEXT = /\b(passport|passeport)\b/i;
+const SIN_CONTEXT = /\b(sin|nas|social insurance|assurance sociale)\b/i;
+
+const PII_DETECTORS: Record<string, PiiDetector> = {
+  CREDIT_CARD: (input) =>
+    collect(input, /\b(?:\d[ -]?){12,18}\d\b/g, (m) => {
+      const digits = digitsOnly(m[0]);
+      return digits.length >= 13 && digits.length <= 19 && /^[2-6]/.test(digits) && passesLuhn(digits);
+    }),
+  US_SSN: (input) =>
+    collect(input, /\b(\d{3})[- ](\d{2})[- ](\d{4})\b/g, (m) => {
+      const [, area, group, serial] = m;
+      return area !== "000" && area !== "666" && !area.startsWith("9") && group !== "00" && serial !== "0000";
+    }),
+  US_BANK_NUMBER: (input) =>
+    collect(input, /\b\d{8,17}\b/g, (m) => hasContext(input, m.index ?? 0, BANK_LABEL)),
+  US_PASSPORT: (input) =>
+    collect(input, /\b[A-Z]?\d{8,9}\b/g, (m) => hasContext(input, m.index ?? 0, PASSPORT_CONTEXT)),
+  CA_SIN: (input) =>
+    collect(input, /\b\d{3}([ -]?)\d{3}\1\d{3}\b/g, (m) => {
+      const digits = digitsOnly(m[0]);
+      if (/^[08]/.test(digits) || !passesLuhn(digits)) return false;
+      // Bare nine-digit runs are common (listing ids, phone fragments); only
+      // accept them when the text around them talks about a SIN / NAS.
+      return m[1] !== "" || hasContext(input, m.index ?? 0, SIN_CONTEXT);
+    }),
+  CA_QC_RAMQ: (input) =>
+    collect(input, /\b[A-Z]{4} ?(\d{2})(\d{2}) ?(\d{2})\d{2}\b/g, (m) => {
+      const month = Number(m[2]);
+      const day = Number(m[3]);
+      const validMonth = (month >= 1 && month <= 12) || (month >= 51 && month <= 62);
+      return validMonth && day >= 1 && day <= 31;
+    }),
+};
+
+const checkPii: GuardrailCheck = (input, config) => {
+  const entities = Array.isArray(config.entities) ? (config.entities as string[]) : DEFAULT_PII_ENTITIES;
+  const detected: Record<string, string[]> = {};
+  for (const entity of entities) {
+    const detector = PII_DETECTORS[entity];
+    if (!detector) continue;
+    const matches = detector(input);
+    if (matches.length) detected[entity] = matches;
+  }
+  const found = Object.keys(detected).length > 0;
+  return {
+    tripwireTriggered: found && config.block !== false,
+    info: {
+      detected_entities: detected,
+      checked_entities: entities,
+    },
+  };
+};
+
+// ---------- Moderation ----------
+// Conservative bilingual phrase lists. This is a rule-based stand-in for a
+// hosted moderation model, so it only flags explicit wording.
+const MODERATION_RULES: Record<string, RegExp[]> = {
+  "sexual/minors": [
+    /\b(child|minor|underage|kid|enfant|mineure?)s?\b.{0,40}\b(sex|sexual|nude|porn|sexuel(le)?)\b/i,
+    /\b(sex|sexual|nude|porn|sexuel(le)?)\b.{0,40}\b(child|minor|underage|enfant|mineure?)s?\b/i,
+  ],
+  "hate/threatening": [
+    /\b(kill|exterminate|wipe out|lynch|tuer|exterminer)\b.{0,40}\b(all|every|tous|toutes|les)\b.{0,20}\b(jews|muslims|blacks|immigrants|gays|arabs|juifs|musulmans|noirs|immigrants|arabes)\b/i,
+  ],
+  "harassment/threatening": [
+    /\b(i('| wi)ll|i am going to|gonna|je vais)\s+(kill|hurt|beat|stab|shoot|tuer|frapper|poignarder|blesser)\s+(you|him|her|them|te|le|la|les|vous)\b/i,
+    /\b(you('| a)re|tu es|t'es)\s+(dead|mort)\b/i,
+  ],
+  "self-harm/instructions": [
+    /\bhow (to|do i|can i)\s+(kill myself|commit suicide|end my life|self[- ]harm|cut myself)\b/i,
+    /\bcomment\s+(me suicider|me tuer|mettre fin à (ma|mes) (vie|jours))\b/i,
+  ],
+  "violence/graphic": [
+    /\b(dismember(ed)?|disembowel(ed)?|decapitat(e|ed|ion)|démembr(er|é)|décapit(er|é|ation))\b/i,
+  ],
+  "illicit/violent": [
+    /\bhow (to|do i|can i)\s+(make|build)\s+(a\s+)?(bomb|pipe bomb|explosive|gun|silencer)\b/i,
+    /\bcomment\s+(fabriquer|faire)\s+(une\s+)?(bombe|explosif|arme)\b/i,
+  ],
+};
+
+const checkModeration: GuardrailCheck = (input, config) => {
+  const categories = Array.isArray(config.categories)
+    ? (config.categories as string[])
+    : Object.keys(MODERATION_RULES);
+  const flagged = categories.filter((category) =>
+    (MODERATION_RULES[category] ?? []).some((rule) => rule.test(input)),
+  );
+  return {
+    tripwireTriggered: flagged.length > 0,
+    info: {
+      flagged_categories: flagged,
+      checked_categories: categories,
+    },
+  };
+};
+
+// ---------- Engine ----------
+const GUARDRAIL_CHECKS: Record<string, GuardrailCheck> = {
+  "Contains PII": checkPii,
+  Moderation: checkModeration,
+  Jailbreak: checkJailbreak,
+  "Hallucination Detection": checkHallucination,
+};
+
+function readGuardrailSpecs(config: unknown): GuardrailSpec[] {
+  const list = (config as { guardrails?: unknown })?.guardrails;
+  if (!Array.isArray(list)) return [];
+  return list.filter(
+    (item): item is GuardrailSpec => Boolean(item) && typeof (item as GuardrailSpec).name === "string",
+  );
+}
+
 /**
- * Local shim for the Guardrails SDK. The real package is not available in this
- * environment, so this implementation simply returns an empty result set which
- * indicates that no guardrail tripwires were triggered.
+ * Offline replacement for the Guardrails SDK. Runs every guardrail named in
+ * `config.guardrails` against the input and returns one result per entry.
+ * Each result carries `info.guardrail_name` so callers can look it up by name.
  */
 export async function runGuardrails(
-  _input: string,
-  _config: unknown,
-  _context: unknown,
+  input: string,
+  config: unknown,
+  context: unknown,
 ): Promise<GuardrailResult[]> {
-  return [];
+  const text = String(input ?? "");
+  return readGuardrailSpecs(config).map((spec) => {
+    const check = GUARDRAIL_CHECKS[spec.name];
+    if (!check) {
+      return {
+        tripwireTriggered: false,
+        executionFailed: true,
+        info: { guardrail_name: spec.name, error: `Unsupported guardrail: ${spec.name}` },
+      };
+    }
+    try {
+      const result = check(text, spec.config ?? {}, context);
+      return { ...result, info: { guardrail_name: spec.name, ...(result.info ?? {}) } };
+    } catch (error: any) {
+      return {
+        tripwireTriggered: false,
+        executionFailed: true,
+        info: { guardrail_name: spec.name, error: String(error?.message || error) },
+      };
+    }
+  });
 }
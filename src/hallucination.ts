@@ -0,0 +1,122 @@
+import type { AgentEvidence } from "./agent.js";
+import type { GuardrailCheck } from "./guardrails.js";
+
+export type HallucinationContext = {
+  listings: unknown[];
+  evidence: AgentEvidence;
+};
+
+const STREET_WORDS = new Set([
+  "rue", "street", "avenue", "boulevard", "boul", "chemin", "road", "place", "montee", "rang",
+  "drive", "croissant", "crescent", "terrasse", "impasse", "allee", "quebec", "canada", "unit", "app",
+]);
+
+function foldText(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function normalizeEvidenceUrl(value: string) {
+  try {
+    const url = new URL(value);
+    url.hash = "";
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    return `${host}${url.pathname.replace(/\/+$/, "")}${url.search}`;
+  } catch {
+    return value.trim().toLowerCase().replace(/\/+$/, "");
+  }
+}
+
+// Collapses "599 000", "599,000" and "599.000" into "599000" so prices match
+// regardless of the page's number formatting.
+function digitsView(text: string) {
+  return text.replace(/(\d)[\s\u00a0\u202f,.](?=\d{3}(\D|$))/g, "$1");
+}
+
+function mentionsNumber(text: string, value: string) {
+  return new RegExp(`(^|\\D)${value}(\\D|$)`).test(text);
+}
+
+function mentionsAddress(pageText: string, address: string) {
+  const folded = foldText(pageText);
+  const street = foldText(address.split(",")[0] ?? address);
+  const number = street.match(/^\s*(\d+[a-z]?)\b/)?.[1];
+  const words = street
+    .replace(/^\s*\d+[a-z]?\b/, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STREET_WORDS.has(word));
+  if (number && !mentionsNumber(folded, number)) return false;
+  if (!words.length) return Boolean(number);
+  return words.some((word) => folded.includes(word));
+}
+
+/**
+ * Output-side check: every listing the agent returned must point at a URL
+ * that a tool actually returned this run, and its MLS number, price and
+ * street address must appear in the text of that page when it was fetched.
+ * Facts for pages that were only seen as search results can't be checked
+ * and are not counted against the listing.
+ */
+export const checkHallucination: GuardrailCheck = (_input, _config, context) => {
+  const { listings = [], evidence = { urls: [], pages: {} } } = (context ?? {}) as Partial<HallucinationContext>;
+  const knownUrls = new Set(evidence.urls.map(normalizeEvidenceUrl));
+  const pages = new Map(Object.entries(evidence.pages).map(([url, text]) => [normalizeEvidenceUrl(url), text]));
+
+  const hallucinated: string[] = [];
+  const verified: string[] = [];
+  const failedListings: Array<{ index: number; statements: string[] }> = [];
+  const types = new Set<string>();
+
+  listings.forEach((item, index) => {
+    if (!item || typeof item !== "object") return;
+    const listing = item as Record<string, any>;
+    const label = `Listing ${listing.mls ?? index + 1}`;
+    const failuresBefore = hallucinated.length;
+    const url = typeof listing.url === "string" ? listing.url : null;
+
+    if (!url || !knownUrls.has(normalizeEvidenceUrl(url))) {
+      hallucinated.push(`${label}: URL ${url ?? "(missing)"} was not returned by any search or page fetch`);
+      types.add("unsupported_url");
+    } else {
+      verified.push(`${label}: URL ${url} was returned by a tool call`);
+      const page = pages.get(normalizeEvidenceUrl(url));
+      if (page) {
+        const digits = digitsView(page);
+        const mls = listing.mls != null ? String(listing.mls).replace(/\D/g, "") : "";
+        if (mls) {
+          if (mentionsNumber(digits, mls)) verified.push(`${label}: MLS ${listing.mls} appears on the page`);
+          else hallucinated.push(`${label}: MLS ${listing.mls} does not appear on ${url}`);
+        }
+        const price = Number(listing.price);
+        if (listing.price != null && Number.isFinite(price) && price > 0) {
+          if (mentionsNumber(digits, String(Math.round(price)))) verified.push(`${label}: price ${price} appears on the page`);
+          else hallucinated.push(`${label}: price ${price} does not appear on ${url}`);
+        }
+        if (typeof listing.address === "string" && listing.address.trim()) {
+          if (mentionsAddress(page, listing.address)) verified.push(`${label}: address "${listing.address}" appears on the page`);
+          else hallucinated.push(`${label}: address "${listing.address}" does not appear on ${url}`);
+        }
+        if (hallucinated.length > failuresBefore) types.add("unsupported_facts");
+      }
+    }
+
+    if (hallucinated.length > failuresBefore) {
+      failedListings.push({ index, statements: hallucinated.slice(failuresBefore) });
+    }
+  });
+
+  return {
+    tripwireTriggered: failedListings.length > 0,
+    info: {
+      reasoning: failedListings.length
+        ? `${failedListings.length} of ${listings.length} listing(s) are not supported by the pages fetched in this run.`
+        : `All ${listings.length} listing(s) are supported by tool results from this run.`,
+      ...(types.size ? { hallucination_type: [...types].join(",") } : {}),
+      hallucinated_statements: hallucinated,
+      verified_statements: verified,
+      failed_listings: failedListings,
+    },
+  };
+};
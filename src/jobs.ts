@@ -0,0 +1,220 @@
+import { recordClientUsage, type ApiClient } from "./auth.js";
+import { fetchPublicUrl } from "./fetcher.js";
+import { createUsageMeter } from "./llm.js";
+import { runWorkflow, type WorkflowEvent } from "./main.js";
+import { listingStoreKey } from "./store.js";
+
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.LISTING_JOB_CONCURRENCY || 2));
+const JOB_MAX_QUEUED = Number(process.env.LISTING_JOB_MAX_QUEUED || 50);
+const JOB_RETENTION_MS = Number(process.env.LISTING_JOB_RETENTION_MS || 60 * 60_000);
+const CALLBACK_TIMEOUT_MS = 10_000;
+const MAX_RECENT_EVENTS = 50;
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+type WorkflowResult = Awaited<ReturnType<typeof runWorkflow>>;
+type PartialListing = Extract<WorkflowEvent, { type: "listing" }>["listing"];
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** When a finished job and its result are dropped. */
+  expiresAt: string | null;
+  input_as_text: string;
+  input_variables: Record<string, unknown>;
+  callbackUrl: string | null;
+  /** Owning API client; other clients can't see the job. */
+  owner: string | null;
+  progress: {
+    step: number;
+    maxSteps: number | null;
+    toolCalls: number;
+    warnings: string[];
+    /** The last few workflow events, newest last. */
+    recentEvents: WorkflowEvent[];
+  };
+  /** Listings streamed so far; the full payload is in `result` once done. */
+  partialListings: PartialListing[];
+  result: WorkflowResult | null;
+  error: string | null;
+};
+
+export type CreateJobInput = {
+  input_as_text: string;
+  input_variables?: Record<string, unknown>;
+  callbackUrl?: string | null;
+  client?: ApiClient | null;
+};
+
+type JobEntry = {
+  job: Job;
+  client: ApiClient | null;
+  controller: AbortController;
+};
+
+const jobs = new Map<string, JobEntry>();
+const queue: string[] = [];
+let running = 0;
+
+function isFinished(status: JobStatus) {
+  return status === "succeeded" || status === "failed" || status === "cancelled";
+}
+
+function pruneExpired(now = Date.now()) {
+  for (const [id, entry] of jobs) {
+    if (entry.job.expiresAt && new Date(entry.job.expiresAt).getTime() <= now) jobs.delete(id);
+  }
+}
+
+// ---------- Progress ----------
+function applyEvent(job: Job, event: WorkflowEvent) {
+  // The final payload is stored as `result`; repeating it here would double the response.
+  if (event.type === "final") return;
+  job.progress.recentEvents.push(event);
+  if (job.progress.recentEvents.length > MAX_RECENT_EVENTS) job.progress.recentEvents.shift();
+  if (event.type === "step") {
+    job.progress.step = event.step;
+    job.progress.maxSteps = event.maxSteps;
+  } else if (event.type === "tool_call") {
+    job.progress.toolCalls += 1;
+  } else if (event.type === "warning") {
+    job.progress.warnings.push(event.message);
+  } else if (event.type === "listing") {
+    // A listing streamed when its page was parsed is sent again, with notes,
+    // when the run finishes; the later copy replaces the earlier one.
+    const key = listingStoreKey(event.listing);
+    const index = key ? job.partialListings.findIndex((listing) => listingStoreKey(listing) === key) : -1;
+    if (index >= 0) job.partialListings[index] = event.listing;
+    else job.partialListings.push(event.listing);
+  }
+}
+
+// ---------- Callback ----------
+async function deliverCallback(job: Job) {
+  if (!job.callbackUrl) return;
+  try {
+    // Same address rules as page fetches; redirects aren't followed.
+    const response = await fetchPublicUrl(job.callbackUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(job),
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (!response.ok) throw new Error(`Callback responded ${response.status}`);
+  } catch (error: any) {
+    // The result stays available through GET /jobs/:id until it expires.
+    console.error(`Job ${job.id} callback failed: ${String(error?.message || error)}`);
+  }
+}
+
+// ---------- Queue ----------
+function finish(entry: JobEntry, status: JobStatus, error: string | null = null) {
+  const { job } = entry;
+  job.status = status;
+  job.error = error;
+  job.finishedAt = new Date().toISOString();
+  job.expiresAt = new Date(Date.now() + JOB_RETENTION_MS).toISOString();
+  void deliverCallback(job);
+}
+
+async function execute(entry: JobEntry) {
+  const { job, controller } = entry;
+  job.status = "running";
+  job.startedAt = new Date().toISOString();
+  // Charged however the run ends: cancelled and failed runs spend tokens too.
+  const meter = createUsageMeter();
+  const charge = () => recordClientUsage(entry.client, meter.total()).catch((error) => console.error(error));
+  try {
+    const result = await runWorkflow(
+      { input_as_text: job.input_as_text, input_variables: job.input_variables },
+      { onEvent: (event) => applyEvent(job, event), signal: controller.signal, onUsage: meter.add },
+    );
+    job.result = result;
+    await charge();
+    finish(entry, "succeeded");
+  } catch (error: any) {
+    await charge();
+    if (controller.signal.aborted) finish(entry, "cancelled");
+    else finish(entry, "failed", String(error?.message || error));
+  }
+}
+
+function pump() {
+  while (running < JOB_CONCURRENCY && queue.length) {
+    const entry = jobs.get(queue.shift() as string);
+    if (!entry || entry.job.status !== "queued") continue;
+    running += 1;
+    void execute(entry).finally(() => {
+      running -= 1;
+      pump();
+    });
+  }
+}
+
+// ---------- Public API ----------
+/** Queues a workflow run; null when the queue is full. */
+export function createJob(input: CreateJobInput): Job | null {
+  pruneExpired();
+  if (queue.length >= JOB_MAX_QUEUED) return null;
+  const job: Job = {
+    id: crypto.randomUUID(),
+    status: "queued",
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    expiresAt: null,
+    input_as_text: input.input_as_text,
+    input_variables: input.input_variables ?? {},
+    callbackUrl: input.callbackUrl ?? null,
+    owner: input.client?.name ?? null,
+    progress: { step: 0, maxSteps: null, toolCalls: 0, warnings: [], recentEvents: [] },
+    partialListings: [],
+    result: null,
+    error: null,
+  };
+  jobs.set(job.id, { job, client: input.client ?? null, controller: new AbortController() });
+  queue.push(job.id);
+  pump();
+  return job;
+}
+
+export function getJob(id: string, client: ApiClient | null = null) {
+  pruneExpired();
+  const entry = jobs.get(id);
+  if (!entry || entry.job.owner !== (client?.name ?? null)) return null;
+  const position = queue.indexOf(id);
+  return { ...entry.job, queuePosition: position >= 0 ? position + 1 : null };
+}
+
+export function listJobs(client: ApiClient | null = null) {
+  pruneExpired();
+  return [...jobs.values()]
+    .filter((entry) => entry.job.owner === (client?.name ?? null))
+    .map(({ job }) => ({ id: job.id, status: job.status, createdAt: job.createdAt, finishedAt: job.finishedAt }));
+}
+
+/**
+ * Cancels a queued or running job. A running job's LLM, search and page
+ * requests are aborted and it settles as "cancelled" shortly after. A job that
+ * already finished is removed instead, freeing its result before it expires.
+ */
+export function cancelJob(id: string, client: ApiClient | null = null) {
+  const entry = jobs.get(id);
+  if (!entry || entry.job.owner !== (client?.name ?? null)) return null;
+  const { job } = entry;
+  if (isFinished(job.status)) {
+    jobs.delete(id);
+    return { id, status: job.status, deleted: true };
+  }
+  if (job.status === "queued") {
+    queue.splice(queue.indexOf(id), 1);
+    finish(entry, "cancelled");
+    return { id, status: job.status, deleted: false };
+  }
+  entry.controller.abort(new Error("Job cancelled"));
+  return { id, status: "cancelling", deleted: false };
+}
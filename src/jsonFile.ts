@@ -0,0 +1,54 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+export type JsonFileStore<T> = {
+  /** Runs `fn` against the loaded data; calls are serialized in order. */
+  read<R>(fn: (data: T) => R | Promise<R>): Promise<R>;
+  /** Like `read`, but writes the (mutated) data back to disk afterwards. */
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R>;
+};
+
+/**
+ * Small JSON-file persistence helper. Data is loaded once, kept in memory and
+ * written atomically (tmp file + rename). Read-modify-write cycles are queued
+ * so concurrent workflow runs don't clobber each other's updates.
+ */
+export function createJsonFileStore<T>(path: string, initial: () => T, isValid: (data: any) => boolean): JsonFileStore<T> {
+  let cache: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<T> {
+    if (cache) return cache;
+    try {
+      const parsed = JSON.parse(await readFile(path, "utf8"));
+      cache = isValid(parsed) ? (parsed as T) : initial();
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+      cache = initial();
+    }
+    return cache;
+  }
+
+  async function save(data: T) {
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2), "utf8");
+    await rename(tmpPath, path);
+  }
+
+  function enqueue<R>(fn: (data: T) => R | Promise<R>, persist: boolean): Promise<R> {
+    const next = queue.then(async () => {
+      const data = await load();
+      const result = await fn(data);
+      if (persist) await save(data);
+      return result;
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    read: (fn) => enqueue(fn, false),
+    update: (fn) => enqueue(fn, true),
+  };
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+
+process.env.OPENAI_API_KEY = "test-key";
+delete process.env.LLM_API_KEY;
+delete process.env.LLM_API_BASE;
+delete process.env.OPENAI_API_BASE;
+delete process.env.LISTING_CASSETTE_MODE;
+
+const { createLlmClient, createUsageMeter } = await import("./llm.js");
+
+const realFetch = globalThis.fetch;
+const requests: Array<{ url: string; body: any }> = [];
+let replies: Array<() => Response> = [];
+
+before(() => {
+  globalThis.fetch = async (input: any, init?: any) => {
+    requests.push({ url: String(input?.url ?? input), body: JSON.parse(init?.body ?? "null") });
+    const reply = replies.shift();
+    if (!reply) throw new Error("Unexpected request");
+    return reply();
+  };
+});
+
+after(() => {
+  globalThis.fetch = realFetch;
+});
+
+function json(body: unknown, status = 200) {
+  return () => new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+test("usage is reported per answered request, so a run that fails later is still charged", async () => {
+  requests.length = 0;
+  replies = [
+    json({ choices: [{ finish_reason: "stop", message: { role: "assistant", content: "ok" } }], usage: { prompt_tokens: 100, completion_tokens: 20 } }),
+    json({ error: { message: "bad request" } }, 400),
+  ];
+  const meter = createUsageMeter();
+  const llm = createLlmClient({ provider: "openai", model: "gpt-4o-mini", maxRetries: 0, onUsage: meter.add });
+
+  await llm.complete({ messages: [{ role: "user", content: "first" }] });
+  await assert.rejects(llm.complete({ messages: [{ role: "user", content: "second" }] }), /400/);
+
+  assert.equal(meter.total()?.requests, 1);
+  assert.equal(meter.total()?.totalTokens, 120);
+});
+
+test("the responses adapter sends tools as non-strict functions", async () => {
+  requests.length = 0;
+  replies = [
+    json({
+      status: "completed",
+      output: [{ type: "function_call", call_id: "call_1", name: "search_listings", arguments: '{"query":"condo Laval"}' }],
+      usage: { input_tokens: 50, output_tokens: 10 },
+    }),
+  ];
+  const parameters = {
+    type: "object",
+    properties: { query: { type: "string" }, max_results: { type: "integer", default: 5 } },
+    required: ["query"],
+  };
+  const llm = createLlmClient({ provider: "responses", model: "gpt-4o-mini", maxRetries: 0 });
+  const completion = await llm.complete({
+    messages: [
+      { role: "system", content: "Find listings." },
+      { role: "user", content: "Condo à Laval" },
+    ],
+    tools: [{ type: "function", function: { name: "search_listings", description: "Search the web.", parameters } }],
+    temperature: 0,
+  });
+
+  assert.equal(requests[0].url, "https://api.openai.com/v1/responses");
+  assert.deepEqual(requests[0].body, {
+    model: "gpt-4o-mini",
+    input: [
+      { role: "system", content: "Find listings." },
+      { role: "user", content: "Condo à Laval" },
+    ],
+    tools: [{ type: "function", name: "search_listings", description: "Search the web.", parameters, strict: false }],
+    temperature: 0,
+  });
+  assert.equal(completion.choices[0].finish_reason, "tool_calls");
+  assert.equal(completion.choices[0].message.tool_calls?.[0].function.name, "search_listings");
+});
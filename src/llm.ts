@@ -0,0 +1,484 @@
+import { isReplaying, withCassette } from "./cassette.js";
+import type { NamedJsonSchema } from "./schema.js";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  name?: string;
+  tool_call_id?: string;
+  tool_calls?: ToolCall[];
+};
+
+export type ToolCall = {
+  id: string;
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+export type ChatCompletionRequest = {
+  model: string;
+  messages: ChatMessage[];
+  tools?: any[];
+  temperature?: number;
+  /** Constrains the text answer to a JSON schema where the backend supports it. */
+  responseFormat?: NamedJsonSchema;
+};
+
+export type TokenUsage = {
+  prompt_tokens: number;
+  completion_tokens: number;
+};
+
+export type ChatCompletionResponse = {
+  choices: Array<{
+    finish_reason: string;
+    message: ChatMessage & { tool_calls?: ToolCall[] };
+  }>;
+  usage?: TokenUsage;
+};
+
+export type LlmUsage = {
+  provider: string;
+  model: string;
+  requests: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+};
+
+type AdapterConfig = {
+  apiBase: string;
+  apiKey: string | null;
+};
+
+type LlmAdapter = {
+  name: string;
+  defaultBase: string;
+  requiresKey: boolean;
+  complete(
+    request: ChatCompletionRequest,
+    config: AdapterConfig,
+    signal: AbortSignal,
+  ): Promise<ChatCompletionResponse>;
+};
+
+const LLM_PROVIDER = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS || 60_000);
+const LLM_MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES || 3);
+// Some OpenAI-compatible servers reject `response_format`; "false" leaves it out.
+const LLM_STRUCTURED_OUTPUT = process.env.LLM_STRUCTURED_OUTPUT !== "false";
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30_000;
+
+// USD per 1M tokens [input, output]. Unknown models cost nothing unless
+// LLM_COST_PER_1M_INPUT / LLM_COST_PER_1M_OUTPUT are set.
+const MODEL_PRICING: Record<string, [number, number]> = {
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4.1": [2, 8],
+};
+
+export class LlmHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null,
+  ) {
+    super(message);
+    this.name = "LlmHttpError";
+  }
+}
+
+// ---------- HTTP helpers ----------
+function parseRetryAfter(value: string | null) {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>, signal: AbortSignal, label: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new LlmHttpError(
+      `${label} error: ${response.status} ${response.statusText} - ${errorText}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after")),
+    );
+  }
+  return response.json();
+}
+
+function bearer(config: AdapterConfig): Record<string, string> {
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+}
+
+// ---------- Adapters ----------
+const chatCompletionsAdapter: LlmAdapter = {
+  name: "openai",
+  defaultBase: "https://api.openai.com/v1",
+  requiresKey: true,
+  async complete(request, config, signal) {
+    const { responseFormat, ...rest } = request;
+    return (await postJson(
+      `${config.apiBase}/chat/completions`,
+      {
+        ...rest,
+        tool_choice: request.tools?.length ? "auto" : undefined,
+        response_format: responseFormat
+          ? { type: "json_schema", json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: true } }
+          : undefined,
+      },
+      bearer(config),
+      signal,
+      "OpenAI API",
+    )) as ChatCompletionResponse;
+  },
+};
+
+function toResponsesInput(messages: ChatMessage[]) {
+  const input: any[] = [];
+  for (const message of messages) {
+    if (message.role === "tool") {
+      input.push({ type: "function_call_output", call_id: message.tool_call_id, output: message.content });
+      continue;
+    }
+    if (message.content) input.push({ role: message.role, content: message.content });
+    for (const call of message.tool_calls ?? []) {
+      input.push({ type: "function_call", call_id: call.id, name: call.function.name, arguments: call.function.arguments });
+    }
+  }
+  return input;
+}
+
+const responsesAdapter: LlmAdapter = {
+  name: "responses",
+  defaultBase: "https://api.openai.com/v1",
+  requiresKey: true,
+  async complete(request, config, signal) {
+    const data = await postJson(
+      `${config.apiBase}/responses`,
+      {
+        model: request.model,
+        input: toResponsesInput(request.messages),
+        // Function tools default to strict here, and the agent's schemas have
+        // optional fields and defaults that strict mode rejects.
+        tools: request.tools?.map((tool) => ({ type: "function", ...tool.function, strict: false })),
+        temperature: request.temperature,
+        text: request.responseFormat
+          ? { format: { type: "json_schema", name: request.responseFormat.name, schema: request.responseFormat.schema, strict: true } }
+          : undefined,
+      },
+      bearer(config),
+      signal,
+      "OpenAI Responses API",
+    );
+
+    const output: any[] = Array.isArray(data?.output) ? data.output : [];
+    const text = output
+      .filter((item) => item?.type === "message")
+      .flatMap((item) => (Array.isArray(item.content) ? item.content : []))
+      .filter((part: any) => part?.type === "output_text")
+      .map((part: any) => part.text)
+      .join("");
+    const toolCalls: ToolCall[] = output
+      .filter((item) => item?.type === "function_call")
+      .map((item) => ({ id: item.call_id, function: { name: item.name, arguments: item.arguments ?? "{}" } }));
+    const truncated = data?.status === "incomplete" && data?.incomplete_details?.reason === "max_output_tokens";
+
+    return {
+      choices: [
+        {
+          finish_reason: toolCalls.length ? "tool_calls" : truncated ? "length" : "stop",
+          message: { role: "assistant", content: text, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) },
+        },
+      ],
+      usage: {
+        prompt_tokens: Number(data?.usage?.input_tokens ?? 0),
+        completion_tokens: Number(data?.usage?.output_tokens ?? 0),
+      },
+    };
+  },
+};
+
+// Ollama's native /api/chat; llama.cpp and other OpenAI-compatible local
+// servers work with the "openai" provider and LLM_API_BASE instead.
+const ollamaAdapter: LlmAdapter = {
+  name: "ollama",
+  defaultBase: "http://localhost:11434",
+  requiresKey: false,
+  async complete(request, config, signal) {
+    const messages = request.messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      ...(message.tool_calls
+        ? {
+            tool_calls: message.tool_calls.map((call) => ({
+              function: { name: call.function.name, arguments: safeParseObject(call.function.arguments) },
+            })),
+          }
+        : {}),
+    }));
+    const data = await postJson(
+      `${config.apiBase}/api/chat`,
+      {
+        model: request.model,
+        messages,
+        tools: request.tools,
+        // Ollama applies `format` to every reply, which would stop it from
+        // calling tools, so the schema is only sent on tool-less turns.
+        format: request.responseFormat && !request.tools?.length ? request.responseFormat.schema : undefined,
+        stream: false,
+        options: request.temperature != null ? { temperature: request.temperature } : undefined,
+      },
+      bearer(config),
+      signal,
+      "Ollama API",
+    );
+
+    const toolCalls: ToolCall[] = (data?.message?.tool_calls ?? []).map((call: any, index: number) => ({
+      id: `call_${index}_${Date.now()}`,
+      function: {
+        name: call?.function?.name ?? "",
+        arguments:
+          typeof call?.function?.arguments === "string"
+            ? call.function.arguments
+            : JSON.stringify(call?.function?.arguments ?? {}),
+      },
+    }));
+
+    return {
+      choices: [
+        {
+          finish_reason: toolCalls.length ? "tool_calls" : data?.done_reason === "length" ? "length" : "stop",
+          message: {
+            role: "assistant",
+            content: data?.message?.content ?? "",
+            ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+          },
+        },
+      ],
+      usage: {
+        prompt_tokens: Number(data?.prompt_eval_count ?? 0),
+        completion_tokens: Number(data?.eval_count ?? 0),
+      },
+    };
+  },
+};
+
+function safeParseObject(value: string) {
+  try {
+    return JSON.parse(value || "{}");
+  } catch {
+    return {};
+  }
+}
+
+const ADAPTERS: Record<string, LlmAdapter> = {
+  openai: chatCompletionsAdapter,
+  responses: responsesAdapter,
+  ollama: ollamaAdapter,
+};
+
+// ---------- Client ----------
+function isRetryable(error: any) {
+  if (error instanceof LlmHttpError) return error.status === 429 || error.status >= 500;
+  // Network failures surface as TypeError from fetch; timeouts as our own abort.
+  return error?.name === "TypeError" || error?.name === "TimeoutError";
+}
+
+function backoffDelay(attempt: number, error: any) {
+  const hinted = error instanceof LlmHttpError ? error.retryAfterMs : null;
+  if (hinted != null) return Math.min(hinted, RETRY_MAX_MS);
+  const exponential = RETRY_BASE_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * exponential * 0.25, RETRY_MAX_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new Error("Aborted"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("Aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** One attempt with its own timeout, also aborted when the caller's signal fires. */
+async function attempt<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(outer?.reason ?? new Error("Aborted"));
+  if (outer?.aborted) onAbort();
+  outer?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => {
+    const error = new Error(`LLM request timed out after ${timeoutMs} ms`);
+    error.name = "TimeoutError";
+    controller.abort(error);
+  }, timeoutMs);
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    // fetch rejects with a generic AbortError; surface the reason we aborted with.
+    throw controller.signal.aborted ? (controller.signal.reason ?? error) : error;
+  } finally {
+    clearTimeout(timer);
+    outer?.removeEventListener("abort", onAbort);
+  }
+}
+
+function costFor(model: string, promptTokens: number, completionTokens: number) {
+  const key = Object.keys(MODEL_PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => model.startsWith(name));
+  const [defaultInput, defaultOutput] = key ? MODEL_PRICING[key] : [0, 0];
+  const input = process.env.LLM_COST_PER_1M_INPUT ? Number(process.env.LLM_COST_PER_1M_INPUT) : defaultInput;
+  const output = process.env.LLM_COST_PER_1M_OUTPUT ? Number(process.env.LLM_COST_PER_1M_OUTPUT) : defaultOutput;
+  return (promptTokens * input + completionTokens * output) / 1_000_000;
+}
+
+export type LlmClient = {
+  model: string;
+  /** An API key is set (when the provider needs one), or a cassette is replaying. */
+  configured: boolean;
+  complete(request: Omit<ChatCompletionRequest, "model">): Promise<ChatCompletionResponse>;
+  usage(): LlmUsage;
+};
+
+export type LlmClientOptions = {
+  provider?: string;
+  model?: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /**
+   * Called with each answered request's usage as it comes in, so callers can
+   * charge runs that later fail or are cancelled.
+   */
+  onUsage?: (usage: LlmUsage) => void;
+};
+
+/** Sums usage from several clients (e.g. the agent plus follow-up calls). */
+export function combineUsage(...usages: Array<LlmUsage | null | undefined>): LlmUsage | null {
+  const present = usages.filter((usage): usage is LlmUsage => Boolean(usage));
+  if (!present.length) return null;
+  return present.slice(1).reduce(
+    (total, usage) => ({
+      ...total,
+      model: total.model === usage.model ? total.model : `${total.model}, ${usage.model}`,
+      requests: total.requests + usage.requests,
+      retries: total.retries + usage.retries,
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      estimatedCostUsd: total.estimatedCostUsd + usage.estimatedCostUsd,
+    }),
+    { ...present[0] },
+  );
+}
+
+/** Adds up usage reported through `onUsage`, e.g. to charge a run however it ends. */
+export function createUsageMeter() {
+  let total: LlmUsage | null = null;
+  return {
+    add: (usage: LlmUsage) => {
+      total = combineUsage(total, usage);
+    },
+    total: () => total,
+  };
+}
+
+/**
+ * Builds a chat client for the configured provider (`LLM_PROVIDER`: openai,
+ * responses or ollama). Requests are retried on 429/5xx and network errors
+ * with exponential backoff (honouring `Retry-After`), each attempt has its own
+ * timeout, and token usage is accumulated across calls.
+ */
+export function createLlmClient(options: LlmClientOptions = {}): LlmClient {
+  const provider = (options.provider || LLM_PROVIDER).toLowerCase();
+  const adapter = ADAPTERS[provider];
+  if (!adapter) throw new Error(`Unknown LLM_PROVIDER: ${provider}`);
+
+  const model = options.model || process.env.OPENAI_MODEL || "gpt-4o-mini";
+  const config: AdapterConfig = {
+    apiBase: (process.env.LLM_API_BASE || (provider === "ollama" ? "" : process.env.OPENAI_API_BASE) || adapter.defaultBase).replace(/\/$/, ""),
+    apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || null,
+  };
+  const timeoutMs = options.timeoutMs ?? LLM_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? LLM_MAX_RETRIES;
+  const totals: LlmUsage = {
+    provider: adapter.name,
+    model,
+    requests: 0,
+    retries: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  };
+
+  async function sendWithRetries(request: ChatCompletionRequest) {
+    for (let tries = 0; ; tries += 1) {
+      try {
+        return await attempt((signal) => adapter.complete(request, config, signal), timeoutMs, options.signal);
+      } catch (error) {
+        if (options.signal?.aborted || tries >= maxRetries || !isRetryable(error)) throw error;
+        totals.retries += 1;
+        await sleep(backoffDelay(tries, error), options.signal);
+      }
+    }
+  }
+
+  async function complete(request: Omit<ChatCompletionRequest, "model">) {
+    const fullRequest: ChatCompletionRequest = { ...request, model };
+    if (!LLM_STRUCTURED_OUTPUT) delete fullRequest.responseFormat;
+    totals.requests += 1;
+    const retriesBefore = totals.retries;
+    const response = await withCassette("llm", { provider: adapter.name, ...fullRequest }, () =>
+      sendWithRetries(fullRequest),
+    );
+    const promptTokens = Number(response.usage?.prompt_tokens ?? 0);
+    const completionTokens = Number(response.usage?.completion_tokens ?? 0);
+    totals.promptTokens += promptTokens;
+    totals.completionTokens += completionTokens;
+    totals.totalTokens = totals.promptTokens + totals.completionTokens;
+    totals.estimatedCostUsd = costFor(model, totals.promptTokens, totals.completionTokens);
+    options.onUsage?.({
+      provider: adapter.name,
+      model,
+      requests: 1,
+      retries: totals.retries - retriesBefore,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimatedCostUsd: costFor(model, promptTokens, completionTokens),
+    });
+    return response;
+  }
+
+  return {
+    model,
+    configured: !adapter.requiresKey || Boolean(config.apiKey) || isReplaying(),
+    complete,
+    usage: () => ({ ...totals }),
+  };
+}
@@ -1,9 +1,26 @@
 import { runGuardrails } from "./guardrails.js";
-import { runListingAgent, type ListingCriteria } from "./agent.js";
+import { computeAffordability, resolveFinancing, type Affordability, type FinancingOptions } from "./affordability.js";
+import { runListingAgent, type AgentEvent, type AgentListing, type ListingCriteria } from "./agent.js";
+import {
+  mergeListingAttributes,
+  normalizeListingAttributes,
+  parseLocaleNumber,
+  parseMoney,
+  type ListingAttributes,
+} from "./attributes.js";
+import { resolveAgentBudget } from "./budget.js";
+import { CRITERIA_FIELDS, extractCriteria, type CriteriaField } from "./criteria.js";
+import { filterAndRankListings, type RankedListing } from "./filters.js";
+import { isSameProperty, mergeSourceRefs, normalizeListingUrl, normalizeMls, type ListingSourceRef } from "./dedupe.js";
+import { resolveCenter, resolveLocation, type ListingLocation } from "./geo.js";
+import { combineUsage, type ChatMessage, type LlmUsage } from "./llm.js";
+import { ensureBilingualNotes } from "./notes.js";
+import { recordListings } from "./store.js";
 
 // ---------- Config ----------
 const DEFAULT_LOCATION = "Laval, QC";
 const MAX_LISTINGS = 12;
+const MLS_NOT_FOUND = "MLS non trouvé / MLS not found";
 
 // ---------- Guardrails ----------
 const guardrailsConfig = {
@@ -25,13 +42,34 @@ const guardrailsConfig = {
       name: "Contains PII",
       config: {
         block: true,
-        entities: ["CREDIT_CARD", "US_BANK_NUMBER", "US_PASSPORT", "US_SSN"],
+        entities: ["CREDIT_CARD", "US_BANK_NUMBER", "US_PASSPORT", "US_SSN", "CA_SIN", "CA_QC_RAMQ"],
       },
     },
+    {
+      name: "Jailbreak",
+      config: { threshold: 1 },
+    },
   ],
 };
 const context = {};
 
+// Runs after the agent, against its listings and the tool results it saw.
+// action "remove" drops unsupported listings; "flag" keeps them with a warning.
+const outputGuardrailsConfig = {
+  guardrails: [
+    {
+      name: "Hallucination Detection",
+      config: { action: "remove" },
+    },
+  ],
+};
+
+/** Runs the input guardrails; returns the failure payload when one trips, else null. */
+export async function checkInputGuardrails(text: string) {
+  const results = await runGuardrails(text ?? "", guardrailsConfig as any, context as any);
+  return guardrailsHasTripwire(results as any[]) ? buildGuardrailFailOutput(results as any[]) : null;
+}
+
 function guardrailsHasTripwire(results: any[]) {
   return (results ?? []).some((r) => r?.tripwireTriggered === true);
 }
@@ -63,6 +101,7 @@ function buildGuardrailFailOutput(results: any[]) {
     },
     jailbreak: {
       failed: jb?.tripwireTriggered === true,
+      ...(jb?.info?.matched_patterns?.length ? { matched_patterns: jb.info.matched_patterns } : {}),
       ...(jb?.executionFailed && jb?.info?.error ? { error: jb.info.error } : {}),
     },
     hallucination: {
@@ -77,14 +116,6 @@ function buildGuardrailFailOutput(results: any[]) {
 }
 
 // ---------- Utility helpers ----------
-function numberFromPriceLike(s?: string | null) {
-  if (!s) return null;
-  const raw = s.replace(/[^\d]/g, "");
-  if (!raw) return null;
-  const n = Number(raw);
-  return Number.isFinite(n) ? n : null;
-}
-
 function first<T>(...vals: Array<T | null | undefined>) {
   return vals.find((v) => v != null) ?? null;
 }
@@ -93,7 +124,7 @@ function toCleanString(value: unknown) {
   return typeof value === "string" ? value.trim() : "";
 }
 
-type NormalizedListing = {
+export type NormalizedListing = {
   mls: string;
   url: string | null;
   address: string | null;
@@ -101,79 +132,168 @@ type NormalizedListing = {
   beds: number | null;
   baths: number | null;
   type: string | null;
+} & ListingAttributes & {
   note_fr: string | null;
   note_en: string | null;
   source: string | null;
+  photos: string[];
+  verified: boolean;
+  /** Address split into parts and placed on the offline gazetteer. */
+  location: ListingLocation | null;
+  /** Every page this property was found on, after cross-source merging. */
+  sources: ListingSourceRef[];
+  /** Buying costs under the request's financing; set by `withAffordability`. */
+  affordability: Affordability | null;
 };
 
-function normalizeAndDedupeListings(items: unknown[]): NormalizedListing[] {
+function mlsFromNormalized(listing: NormalizedListing) {
+  return listing.mls === MLS_NOT_FOUND ? null : listing.mls;
+}
+
+function listingKeys(listing: NormalizedListing) {
+  const mls = normalizeMls(mlsFromNormalized(listing));
+  const urls = [listing.url, ...listing.sources.map((ref) => ref.url)].map(normalizeListingUrl);
+  const keys: string[] = [];
+  if (mls) keys.push(`MLS:${mls}`);
+  for (const url of new Set(urls)) if (url) keys.push(`URL:${url}`);
+  return keys;
+}
+
+// Verified listings (parsed from page markup) override model-provided values;
+// otherwise the first record seen wins and later ones only fill gaps.
+function mergeListings(prior: NormalizedListing, next: NormalizedListing): NormalizedListing {
+  const [primary, secondary] = next.verified && !prior.verified ? [next, prior] : [prior, next];
+  const address = primary.address ?? secondary.address;
+  return {
+    ...prior,
+    mls: primary.mls !== MLS_NOT_FOUND ? primary.mls : secondary.mls,
+    url: primary.url ?? secondary.url,
+    address,
+    price: primary.price ?? secondary.price,
+    beds: primary.beds ?? secondary.beds,
+    baths: primary.baths ?? secondary.baths,
+    type: primary.type ?? secondary.type,
+    ...mergeListingAttributes(primary, secondary),
+    note_fr: prior.note_fr ?? next.note_fr,
+    note_en: prior.note_en ?? next.note_en,
+    source: primary.source ?? secondary.source,
+    photos: primary.photos.length ? primary.photos : secondary.photos,
+    verified: prior.verified || next.verified,
+    location: resolveLocation(address),
+    sources: mergeSourceRefs(primary.sources, secondary.sources),
+    affordability: null,
+  };
+}
+
+function toSourceRef(ref: Record<string, unknown>, trusted: boolean): ListingSourceRef {
+  return {
+    url: typeof ref.url === "string" ? ref.url : null,
+    source: typeof ref.source === "string" ? ref.source : null,
+    mls: typeof ref.mls === "string" ? ref.mls : null,
+    verified: trusted && ref.verified === true,
+  };
+}
+
+// A parsed page on its own proves little (a blog post naming an MLS number, an
+// ad's price), so it only stands as a listing with an address and a price.
+function canStandAlone(listing: NormalizedListing) {
+  return Boolean(listing.address) && listing.price != null;
+}
+
+/**
+ * Only records in `trusted` (built from parsed page markup, or earlier results
+ * of this server) keep their `verified` flags; anything else, such as the
+ * model's answer or `input_variables.listings`, is treated as unverified.
+ * Records in `enrichOnly` correct or complete a listing already seen, and are
+ * only added on their own when `canStandAlone` holds.
+ */
+function normalizeAndDedupeListings(
+  items: unknown[],
+  trusted: ReadonlySet<unknown> = new Set(),
+  enrichOnly: ReadonlySet<unknown> = new Set(),
+): NormalizedListing[] {
   const seen = new Map<string, number>();
   const out: NormalizedListing[] = [];
 
   for (const item of items ?? []) {
     if (!item || typeof item !== "object") continue;
     const record = item as Record<string, any>;
+    const isTrusted = trusted.has(item);
+    const verified = isTrusted && record.verified === true;
 
     const mlsRaw =
       first(record.mls, record.MLS, record.listingId, record.listing_id, record["MLS®"]) ?? null;
-    const mls = mlsRaw ? String(mlsRaw).trim() : null;
+    const mls = mlsRaw ? normalizeMls(String(mlsRaw)) : null;
 
     const url = record.url ? String(record.url).trim() : null;
     const address = record.address ? String(record.address).trim() : null;
     const beds =
       record.beds != null ? Number(String(record.beds).replace(/[^\d]/g, "")) : null;
-    const baths =
-      record.baths != null ? Number(String(record.baths).replace(/[^\d.]/g, "")) : null;
+    // "1,5" (French) and "1.5" are the same count.
+    const baths = parseLocaleNumber(record.baths);
     const type = record.type ? String(record.type).trim() : null;
     const note_fr = record.note_fr ? String(record.note_fr).trim() : null;
     const note_en = record.note_en ? String(record.note_en).trim() : null;
     const source = record.source ? String(record.source).trim() : null;
 
-    const price =
-      record.price != null
-        ? Number(record.price)
-        : numberFromPriceLike(first(record.priceText, record.price_str, record.askingPrice));
+    const price = parseMoney(first(record.price, record.priceText, record.price_str, record.askingPrice));
 
     const normalized: NormalizedListing = {
-      mls: mls ?? "MLS non trouvé / MLS not found",
+      mls: mls ?? MLS_NOT_FOUND,
       url,
       address,
       price: price ?? null,
       beds,
       baths,
       type,
+      ...normalizeListingAttributes(record),
       note_fr: note_fr ?? null,
       note_en: note_en ?? null,
       source: source ?? null,
+      photos: Array.isArray(record.photos)
+        ? record.photos.filter((photo: unknown): photo is string => typeof photo === "string")
+        : [],
+      verified,
+      location: resolveLocation(address),
+      sources: mergeSourceRefs(
+        Array.isArray(record.sources)
+          ? record.sources.filter((ref: any) => ref && typeof ref === "object").map((ref: any) => toSourceRef(ref, isTrusted))
+          : [],
+        url || source ? [{ url, source: source ?? null, mls, verified }] : [],
+      ),
+      affordability: null,
     };
 
-    const key = mls ? `MLS:${mls.toUpperCase()}` : url ? `URL:${url}` : `IDX:${out.length}`;
-    if (!seen.has(key)) {
-      seen.set(key, out.length);
+    const keys = listingKeys(normalized);
+    // Exact MLS / URL first, then fuzzy matching on address and facts for the
+    // same property listed on another site.
+    let existing = keys.map((key) => seen.get(key)).find((idx) => idx != null);
+    if (existing == null) {
+      const fuzzy = out.findIndex((candidate) =>
+        isSameProperty({ ...candidate, mls: mlsFromNormalized(candidate) }, { ...normalized, mls }),
+      );
+      if (fuzzy !== -1) existing = fuzzy;
+    }
+    if (existing == null) {
+      if (enrichOnly.has(item) && !canStandAlone(normalized)) continue;
+      for (const key of keys) seen.set(key, out.length);
       out.push(normalized);
     } else {
-      const idx = seen.get(key)!;
-      const prior = out[idx];
-      out[idx] = {
-        ...prior,
-        address: prior.address ?? normalized.address,
-        price: prior.price ?? normalized.price,
-        beds: prior.beds ?? normalized.beds,
-        baths: prior.baths ?? normalized.baths,
-        type: prior.type ?? normalized.type,
-        note_fr: prior.note_fr ?? normalized.note_fr,
-        note_en: prior.note_en ?? normalized.note_en,
-        source: prior.source ?? normalized.source,
-      };
+      out[existing] = mergeListings(out[existing], normalized);
+      for (const key of listingKeys(out[existing])) seen.set(key, existing);
     }
-
-    if (out.length >= MAX_LISTINGS) break;
   }
 
-  return out.slice(0, MAX_LISTINGS);
+  return out;
 }
 
-function buildResultsJson(listings: NormalizedListing[]) {
+// Depends on the request's financing, so it's computed after merging and
+// recomputed for listings passed back in through `input_variables.listings`.
+function withAffordability(listings: NormalizedListing[], financing: FinancingOptions) {
+  return listings.map((listing) => ({ ...listing, affordability: computeAffordability(listing, financing) }));
+}
+
+function buildResultsJson(listings: RankedListing[]) {
   const payload = {
     listings,
     schema: {
@@ -184,9 +304,28 @@ function buildResultsJson(listings: NormalizedListing[]) {
       beds: "number",
       baths: "number",
       type: "string",
+      municipalTaxAnnual: "number (CAD per year)",
+      schoolTaxAnnual: "number (CAD per year)",
+      condoFeesMonthly: "number (CAD per month)",
+      livingAreaSqft: "number (sq ft)",
+      livingAreaM2: "number (m²)",
+      lotSizeSqft: "number (sq ft)",
+      lotSizeM2: "number (m²)",
+      yearBuilt: "number",
+      parkingSpaces: "number",
+      listedAt: "string (YYYY-MM-DD)",
+      daysOnMarket: "number (from listedAt, or as stated by the source)",
       note_en: "string",
       note_fr: "string",
       source: "string",
+      photos: "string[] (image URLs)",
+      verified: "boolean (facts parsed from the listing page markup)",
+      sources: "{ url, source, mls, verified }[] (every page the property was found on)",
+      location:
+        "{ street, unit, city, borough, province, postalCode, lat, lon, precision, inGreaterMontreal } (approximate centroid coordinates)",
+      affordability:
+        "{ welcomeTax, minimumDownPayment, downPayment, insurancePremium, mortgageAmount, monthlyMortgage, monthlyTaxes, monthlyCondoFees, monthlyTotal, cashToClose, summary_en, summary_fr, ... } (CAD, estimates)",
+      matchScore: "number 0-1 (how well the listing matches the criteria)",
     },
   };
   const body = JSON.stringify(payload, null, 2);
@@ -224,49 +363,208 @@ type WorkflowInput = {
   input_variables?: Record<string, unknown>;
 };
 
-export const runWorkflow = async (workflow: WorkflowInput) => {
-  const guardrailsInputtext = workflow.input_as_text ?? "";
-  const guardrailsResult = await runGuardrails(guardrailsInputtext, guardrailsConfig as any, context as any);
-  if (guardrailsHasTripwire(guardrailsResult as any[])) {
-    return buildGuardrailFailOutput(guardrailsResult as any[]);
-  }
+export type WorkflowEvent =
+  | AgentEvent
+  | { type: "listing"; listing: RankedListing }
+  | { type: "final"; payload: Awaited<ReturnType<typeof runWorkflow>> };
 
-  const variables = workflow.input_variables ?? {};
-  const criteria: ListingCriteria = {
-    location: toCleanString(variables.location) || DEFAULT_LOCATION,
+type WorkflowOptions = {
+  onEvent?: (event: WorkflowEvent) => void;
+  /** Earlier conversation turns, for follow-up requests in a session. */
+  history?: ChatMessage[];
+  /** Aborts in-flight LLM, search and page requests; the run then rejects. */
+  signal?: AbortSignal;
+  /** Each answered LLM request's usage, including runs that fail or are aborted later. */
+  onUsage?: (usage: LlmUsage) => void;
+  /**
+   * Listings from earlier runs (e.g. a session's pool) to keep in the results.
+   * Unlike `input_variables.listings`, they keep their `verified` flags.
+   */
+  knownListings?: NormalizedListing[];
+};
+
+export type CriteriaSource = "input_variables" | "text" | "default";
+
+const GEOGRAPHY_FIELDS: CriteriaField[] = ["location", "boroughs", "radiusKm", "center"];
+
+/**
+ * Builds search criteria from `input_variables` and the request text. Explicit
+ * variables win field by field; any explicit location, borough or radius
+ * setting replaces the places read from the text as a whole, so the two can't
+ * contradict each other. Without amenities in the text, the text itself is
+ * the keywords.
+ */
+export function resolveCriteria(variables: Record<string, unknown>, inputText = "") {
+  const explicit: ListingCriteria = {
+    location: toCleanString(variables.location),
     priceMin: toCleanString(variables.priceMin),
     priceMax: toCleanString(variables.priceMax),
     beds: toCleanString(variables.beds),
     baths: toCleanString(variables.baths),
     type: toCleanString(variables.type),
-    keywords: toCleanString(variables.keywords || workflow.input_as_text),
+    keywords: toCleanString(variables.keywords),
+    boroughs: Array.isArray(variables.boroughs)
+      ? variables.boroughs.map(toCleanString).filter(Boolean).join(", ")
+      : toCleanString(variables.boroughs),
+    radiusKm: variables.radiusKm != null ? String(variables.radiusKm).trim() : "",
+    center: toCleanString(variables.center),
+    maxMonthlyPayment: variables.maxMonthlyPayment != null ? String(variables.maxMonthlyPayment).trim() : "",
   };
+  const fromText = extractCriteria(inputText);
+  const explicitGeography = GEOGRAPHY_FIELDS.some((field) => explicit[field]);
+
+  const criteria = { ...explicit };
+  const sources = {} as Record<CriteriaField, CriteriaSource>;
+  const matched: Partial<Record<CriteriaField, { value: string; matched: string }>> = {};
+  for (const field of CRITERIA_FIELDS) {
+    const textValue = explicitGeography && GEOGRAPHY_FIELDS.includes(field) ? undefined : fromText.criteria[field];
+    if (explicit[field]) {
+      sources[field] = "input_variables";
+    } else if (textValue) {
+      criteria[field] = textValue;
+      sources[field] = "text";
+      matched[field] = { value: textValue, matched: fromText.matched[field] ?? "" };
+    } else {
+      sources[field] = "default";
+    }
+  }
+  if (!criteria.location) criteria.location = DEFAULT_LOCATION;
+  if (!criteria.keywords && inputText.trim()) {
+    criteria.keywords = inputText.trim();
+    sources.keywords = "text";
+  }
+  return { criteria, sources, fromText: matched };
+}
+
+export const runWorkflow = async (workflow: WorkflowInput, options: WorkflowOptions = {}) => {
+  const emit = options.onEvent ?? (() => {});
+  const failOutput = await checkInputGuardrails(workflow.input_as_text ?? "");
+  if (failOutput) {
+    emit({ type: "final", payload: failOutput });
+    return failOutput;
+  }
+
+  const variables = workflow.input_variables ?? {};
+  const { criteria, sources: criteriaSources, fromText: criteriaFromText } = resolveCriteria(variables, workflow.input_as_text ?? "");
 
+  const financing = resolveFinancing(variables.financing);
   const listingsInput = Array.isArray((variables as any).listings) ? (variables as any).listings : [];
-  const agentResults = await runListingAgent(workflow.input_as_text, criteria);
-  const combinedListings = [...listingsInput, ...(agentResults.listings ?? [])];
-  const listings = normalizeAndDedupeListings(combinedListings);
+  // Parsed pages that can stand as listings are streamed as they come in when
+  // they meet the criteria; the final `listing` events, with notes, replace them.
+  const emitVerified = (verified: AgentListing) => {
+    const ranked = filterAndRankListings(
+      withAffordability(normalizeAndDedupeListings([verified], new Set([verified]), new Set([verified])), financing),
+      criteria,
+    ).listings;
+    for (const listing of ranked) emit({ type: "listing", listing });
+  };
+  const agentResults = await runListingAgent(workflow.input_as_text, criteria, {
+    onEvent: emit,
+    onVerifiedListing: emitVerified,
+    onUsage: options.onUsage,
+    signal: options.signal,
+    history: options.history,
+    budget: resolveAgentBudget(variables.budget),
+  });
+  // A cancelled run stops here rather than filtering and storing partial results.
+  options.signal?.throwIfAborted();
+  const warnings = [...agentResults.warnings];
+
+  const outputGuardrails = await runGuardrails("", outputGuardrailsConfig, {
+    listings: agentResults.listings,
+    evidence: agentResults.evidence,
+  });
+  const hallucinationResult = outputGuardrails.find((r) => r.info?.guardrail_name === "Hallucination Detection");
+  const failedListings = (hallucinationResult?.info?.failed_listings ?? []) as Array<{ index: number; statements: string[] }>;
+  const removeUnsupported = outputGuardrailsConfig.guardrails[0].config.action === "remove";
+  const failedIndexes = new Set(failedListings.map((failure) => failure.index));
+  for (const failure of failedListings) {
+    const message = `Unsupported listing ${removeUnsupported ? "removed" : "flagged"}: ${failure.statements.join("; ")}`;
+    warnings.push(message);
+    emit({ type: "warning", message });
+  }
+  const agentListings = removeUnsupported
+    ? agentResults.listings.filter((_, index) => !failedIndexes.has(index))
+    : agentResults.listings;
+  const unsupported = removeUnsupported
+    ? failedListings.flatMap((failure) =>
+        normalizeAndDedupeListings([agentResults.listings[failure.index]]).map((listing) => ({
+          listing,
+          reasons: failure.statements,
+        })),
+      )
+    : [];
+
+  const knownListings = options.knownListings ?? [];
+  const verifiedListings = agentResults.verifiedListings ?? [];
+  const combinedListings = [...knownListings, ...listingsInput, ...agentListings, ...verifiedListings];
+  if (criteria.radiusKm && !resolveCenter(criteria.center || criteria.location)) {
+    warnings.push(`Radius filter ignored: "${criteria.center || criteria.location}" is not a known place or "lat,lon".`);
+  }
+  const normalized = normalizeAndDedupeListings(
+    combinedListings,
+    new Set([...knownListings, ...verifiedListings]),
+    new Set(verifiedListings),
+  );
+  // Capped after ranking, so the cap never drops a better match that came
+  // later in the input (parsed pages come last).
+  const ranked = filterAndRankListings(withAffordability(normalized, financing), criteria);
+  const filtered = { ...ranked, listings: ranked.listings.slice(0, MAX_LISTINGS) };
+  const excluded = [...unsupported, ...filtered.excluded];
+
+  const noteQuality = await ensureBilingualNotes(
+    filtered.listings,
+    { en: agentResults.notes_en, fr: agentResults.notes_fr },
+    { signal: options.signal, onUsage: options.onUsage },
+  );
+  options.signal?.throwIfAborted();
+  for (const message of noteQuality.warnings) {
+    warnings.push(message);
+    emit({ type: "warning", message });
+  }
+  const listings = filtered.listings.map((listing, index) => ({
+    ...listing,
+    note_en: noteQuality.listings[index].note_en,
+    note_fr: noteQuality.listings[index].note_fr,
+  }));
+  for (const listing of listings) emit({ type: "listing", listing });
+
+  try {
+    await recordListings(listings);
+  } catch (error: any) {
+    const message = `Listing store update failed: ${String(error?.message || error)}`;
+    warnings.push(message);
+    emit({ type: "warning", message });
+  }
 
   const output = {
     title: "Québec Listings • Annonces Québec",
     criteria,
+    criteriaSources,
+    criteriaFromText,
+    financing,
     typeOptions: TYPE_OPTIONS,
     bedsOptions: BEDS_OPTIONS,
     bathsOptions: BATHS_OPTIONS,
     hasResults: listings.length > 0,
     resultsJson: buildResultsJson(listings),
     listings,
-    agentNotes: {
-      en: agentResults.notes_en,
-      fr: agentResults.notes_fr,
-    },
+    excluded,
+    agentNotes: noteQuality.agentNotes,
+    machineFilledNotes: noteQuality.machineFilled,
     sources: agentResults.sources,
-    warnings: agentResults.warnings,
+    warnings,
+    agentFailed: agentResults.failed,
+    hallucination: buildGuardrailFailOutput(outputGuardrails).hallucination,
+    usage: combineUsage(agentResults.usage, noteQuality.usage),
+    budget: agentResults.budget,
     rawAgentResponse: agentResults.rawResponse,
   };
 
-  return {
+  const result = {
     output_text: JSON.stringify(output),
     output_parsed: output,
   };
+  emit({ type: "final", payload: result });
+  return result;
 };
@@ -0,0 +1,260 @@
+import { createLlmClient, type LlmClient, type LlmUsage } from "./llm.js";
+import type { NormalizedListing } from "./main.js";
+
+export type NoteLanguage = "en" | "fr";
+export type NoteField = "note_en" | "note_fr" | "notes_en" | "notes_fr";
+
+export type MachineFilledNote = {
+  /** "listing" notes are identified by MLS (or URL); "agentNotes" are the run-level notes. */
+  target: "listing" | "agentNotes";
+  id: string | null;
+  field: NoteField;
+  reason: "missing" | "wrong-language";
+};
+
+export type AgentNotes = {
+  en: string | null;
+  fr: string | null;
+};
+
+export type NoteQualityResult = {
+  listings: NormalizedListing[];
+  agentNotes: AgentNotes;
+  machineFilled: MachineFilledNote[];
+  warnings: string[];
+  usage: LlmUsage | null;
+};
+
+type NoteQualityOptions = {
+  signal?: AbortSignal;
+  onUsage?: (usage: LlmUsage) => void;
+};
+
+// ---------- Language detection ----------
+const FRENCH_WORDS = new Set(
+  "le la les des du de et est un une avec pour dans sur au aux près chambres chambre salle bains cuisine maison cette ce très sont qui que pas plus situé située quartier rue prix vendre louer grand grande beau belle entièrement rénové rénovée proche étage terrain garage stationnement sous-sol copropriété logement ensoleillé".split(" "),
+);
+const ENGLISH_WORDS = new Set(
+  "the and with for of is an near bedroom bedrooms bathroom bathrooms kitchen house this very are which that not more located neighbourhood neighborhood street price sale rent large beautiful fully renovated close floor lot parking basement condo unit sunny".split(" "),
+);
+
+/**
+ * Guesses whether a note is English or French from common words and accents.
+ * Returns null for text too short or too mixed to call.
+ */
+export function detectLanguage(text: string | null | undefined): NoteLanguage | null {
+  if (!text) return null;
+  const words = text.toLowerCase().match(/[a-zà-ÿœ'-]+/g) ?? [];
+  if (words.length < 3) return null;
+  let fr = (text.match(/[àâçéèêëîïôûùüÿœ]/gi) ?? []).length * 0.5;
+  let en = 0;
+  for (const word of words) {
+    const bare = word.replace(/^(l|d|qu|n|s|c|j)'/, "");
+    if (FRENCH_WORDS.has(bare) || bare !== word) fr += 1;
+    if (ENGLISH_WORDS.has(word) || /'s$/.test(word)) en += 1;
+  }
+  if (fr >= 2 && fr >= en * 1.5) return "fr";
+  if (en >= 2 && en >= fr * 1.5) return "en";
+  return null;
+}
+
+// ---------- Quebec French glossary ----------
+// [pattern, preferred Quebec term]. Applied to French notes so the same thing
+// is always called the same way, whatever wording the model picked.
+const QUEBEC_GLOSSARY: Array<[RegExp, string]> = [
+  [/\bsous[ -]sols?\b/gi, "sous-sol"],
+  [/\bbasement\b/gi, "sous-sol"],
+  [/\bcondominiums?\b/gi, "copropriété"],
+  [/\bcopro\b|\bcopropri[ée]t[ée]\b/gi, "copropriété"],
+  [/\bmultiplex\b|\bmulti-?logements?\b/gi, "plex"],
+  [/\bimmeubles? de rapport\b/gi, "immeuble à revenus"],
+  [/\bcharges de copropriété\b/gi, "frais de copropriété"],
+  [/\btaxes? foncières?\b/gi, "taxes municipales"],
+  [/\bplaces? de parking\b|\bparkings?\b/gi, "stationnement"],
+  [/\bcuisine américaine\b/gi, "cuisine à aire ouverte"],
+  [/\bweek-?ends?\b/gi, "fin de semaine"],
+];
+
+function matchCase(original: string, replacement: string) {
+  return original[0] === original[0].toUpperCase() && original[0] !== original[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+export function applyQuebecGlossary(text: string) {
+  return QUEBEC_GLOSSARY.reduce(
+    (current, [pattern, term]) => current.replace(pattern, (match) => matchCase(match, term)),
+    text,
+  );
+}
+
+export function glossaryPrompt() {
+  return [
+    "Use Quebec French real estate terms: « plex » (duplex, triplex…), « copropriété » (condo), « sous-sol »,",
+    "« stationnement », « frais de copropriété », « taxes municipales », « immeuble à revenus », « cuisine à aire ouverte ».",
+  ].join(" ");
+}
+
+// ---------- Checking ----------
+type NoteIssue = {
+  key: string;
+  field: NoteField;
+  language: NoteLanguage;
+  reason: MachineFilledNote["reason"];
+};
+
+function checkNote(key: string, field: NoteField, language: NoteLanguage, text: string | null): NoteIssue | null {
+  if (!text || !text.trim()) return { key, field, language, reason: "missing" };
+  const detected = detectLanguage(text);
+  if (detected && detected !== language) return { key, field, language, reason: "wrong-language" };
+  return null;
+}
+
+function listingId(listing: NormalizedListing) {
+  return /\d/.test(listing.mls) ? listing.mls : listing.url;
+}
+
+function listingFacts(listing: NormalizedListing) {
+  return {
+    mls: /\d/.test(listing.mls) ? listing.mls : null,
+    address: listing.address,
+    price: listing.price,
+    beds: listing.beds,
+    baths: listing.baths,
+    type: listing.type,
+    livingAreaSqft: listing.livingAreaSqft,
+    yearBuilt: listing.yearBuilt,
+    parkingSpaces: listing.parkingSpaces,
+    condoFeesMonthly: listing.condoFeesMonthly,
+    city: listing.location?.city ?? null,
+    borough: listing.location?.borough ?? null,
+  };
+}
+
+// ---------- Regeneration ----------
+async function regenerateNotes(
+  llm: LlmClient,
+  items: Array<{ key: string; needs: NoteField[]; facts: unknown; existing: Record<string, string | null> }>,
+) {
+  const response = await llm.complete({
+    messages: [
+      {
+        role: "system",
+        content: [
+          "You write short bilingual notes for Greater Montreal real estate listings.",
+          "For each item, write only the requested fields, using only the facts and existing notes given; never invent details.",
+          "note_en / notes_en must be in English, note_fr / notes_fr in Quebec French, one or two sentences each.",
+          "An existing note in the wrong language may be translated.",
+          glossaryPrompt(),
+          'Reply with JSON only: {"items":[{"key":"...","note_en":"...","note_fr":"..."}]}.',
+        ].join("\n"),
+      },
+      { role: "user", content: JSON.stringify({ items }) },
+    ],
+    temperature: 0.2,
+  });
+  const content = response.choices?.[0]?.message?.content || "";
+  const json = content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1);
+  const parsed = JSON.parse(json || "{}");
+  const byKey = new Map<string, Record<string, unknown>>();
+  for (const item of Array.isArray(parsed?.items) ? parsed.items : []) {
+    if (item && typeof item.key === "string") byKey.set(item.key, item);
+  }
+  return byKey;
+}
+
+/**
+ * Makes sure every listing has an English `note_en` and a French `note_fr`
+ * (and the run has both `notes_en` / `notes_fr`). Missing or wrong-language
+ * notes are rewritten from the listing facts in one follow-up LLM call;
+ * French notes then go through the Quebec glossary. Notes that could not be
+ * fixed are left as they were, with a warning.
+ */
+export async function ensureBilingualNotes(
+  listings: NormalizedListing[],
+  agentNotes: AgentNotes,
+  options: NoteQualityOptions = {},
+): Promise<NoteQualityResult> {
+  const issues: NoteIssue[] = [];
+  listings.forEach((listing, index) => {
+    const key = `listing:${index}`;
+    issues.push(
+      ...[checkNote(key, "note_en", "en", listing.note_en), checkNote(key, "note_fr", "fr", listing.note_fr)].filter(
+        (issue): issue is NoteIssue => Boolean(issue),
+      ),
+    );
+  });
+  // Run-level notes are optional; only a note in the wrong language, or one
+  // side present without the other, needs fixing.
+  if (agentNotes.en || agentNotes.fr) {
+    issues.push(
+      ...[checkNote("agentNotes", "notes_en", "en", agentNotes.en), checkNote("agentNotes", "notes_fr", "fr", agentNotes.fr)].filter(
+        (issue): issue is NoteIssue => Boolean(issue),
+      ),
+    );
+  }
+
+  const warnings: string[] = [];
+  const machineFilled: MachineFilledNote[] = [];
+  const updated = listings.map((listing) => ({ ...listing }));
+  const notes = { ...agentNotes };
+  let usage: LlmUsage | null = null;
+
+  if (issues.length) {
+    let llm: LlmClient | null = null;
+    try {
+      llm = createLlmClient({ signal: options.signal, onUsage: options.onUsage });
+    } catch (error: any) {
+      warnings.push(`Note regeneration skipped: ${String(error?.message || error)}`);
+    }
+    if (llm && !llm.configured) {
+      warnings.push("Note regeneration skipped: OPENAI_API_KEY is not configured");
+      llm = null;
+    }
+
+    if (llm) {
+      const keys = [...new Set(issues.map((issue) => issue.key))];
+      const items = keys.map((key) => {
+        const needs = issues.filter((issue) => issue.key === key).map((issue) => issue.field);
+        if (key === "agentNotes") {
+          return { key, needs, facts: null, existing: { notes_en: notes.en, notes_fr: notes.fr } };
+        }
+        const listing = updated[Number(key.split(":")[1])];
+        return { key, needs, facts: listingFacts(listing), existing: { note_en: listing.note_en, note_fr: listing.note_fr } };
+      });
+
+      try {
+        const generated = await regenerateNotes(llm, items);
+        for (const issue of issues) {
+          const value = generated.get(issue.key)?.[issue.field];
+          const text = typeof value === "string" ? value.trim() : "";
+          const language = detectLanguage(text);
+          if (!text || (language && language !== issue.language)) {
+            warnings.push(`Could not regenerate ${issue.field} for ${issue.key}`);
+            continue;
+          }
+          if (issue.key === "agentNotes") {
+            if (issue.field === "notes_en") notes.en = text;
+            else notes.fr = text;
+            machineFilled.push({ target: "agentNotes", id: null, field: issue.field, reason: issue.reason });
+          } else {
+            const listing = updated[Number(issue.key.split(":")[1])];
+            if (issue.field === "note_en") listing.note_en = text;
+            else listing.note_fr = text;
+            machineFilled.push({ target: "listing", id: listingId(listing), field: issue.field, reason: issue.reason });
+          }
+        }
+      } catch (error: any) {
+        warnings.push(`Note regeneration failed: ${String(error?.message || error)}`);
+      }
+      usage = llm.usage();
+    }
+  }
+
+  for (const listing of updated) {
+    if (listing.note_fr) listing.note_fr = applyQuebecGlossary(listing.note_fr);
+  }
+  if (notes.fr) notes.fr = applyQuebecGlossary(notes.fr);
+
+  return { listings: updated, agentNotes: notes, machineFilled, warnings, usage };
+}
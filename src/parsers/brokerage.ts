@@ -0,0 +1,37 @@
+import {
+  labelValue,
+  MONEY_VALUE,
+  parseAmount,
+  parseCount,
+  parseLotSize,
+  parseMls,
+  parseMoneyText,
+  parseYear,
+  type SiteParser,
+} from "./common.js";
+
+// Royal LePage and Sutton agent sites are built from many templates, so this
+// parser works on the flattened text using the bilingual labels they share.
+export const brokerageParser: SiteParser = {
+  name: "brokerage",
+  hosts: ["royallepage.ca", "suttonquebec.com", "sutton.com"],
+  parse(_html, text) {
+    return {
+      mls: parseMls(labelValue(text, ["MLS® #", "MLS®", "No Centris", "Centris No.", "Centris #", "No MLS"])),
+      price: parseAmount(labelValue(text, ["Prix demandé", "Asking price", "Prix", "Price"], "\\$?\\s?\\d[\\d\\s,.]*\\s?\\$?")),
+      rooms: parseCount(labelValue(text, ["Nombre de pièces", "Pièces", "Rooms"], "\\d+")),
+      beds: parseCount(labelValue(text, ["Chambres à coucher", "Chambres", "Bedrooms", "Beds"], "\\d+")),
+      baths: parseCount(labelValue(text, ["Salles de bain", "Salle de bain", "Bathrooms", "Baths"], "\\d+")),
+      livingArea: parseLotSize(labelValue(text, ["Superficie habitable", "Superficie nette", "Living area", "Net area"])),
+      lotSize: parseLotSize(labelValue(text, ["Superficie du terrain", "Dimensions du terrain", "Lot size", "Lot area"])),
+      municipalTax: parseMoneyText(labelValue(text, ["Taxes municipales", "Municipal taxes"], MONEY_VALUE)),
+      schoolTax: parseMoneyText(labelValue(text, ["Taxes scolaires", "School taxes"], MONEY_VALUE)),
+      condoFees: parseMoneyText(labelValue(text, ["Frais de copropriété", "Frais de condo", "Condo fees", "Condominium fees"], MONEY_VALUE)),
+      parking: labelValue(text, ["Stationnement total", "Stationnement", "Parking"], "(?:[A-Za-zÀ-ÿ ]{2,20}\\(\\d+\\),?\\s*)+|\\d+"),
+      yearBuilt: parseYear(labelValue(text, ["Année de construction", "Year built", "Construit en", "Built in"], "\\d{4}")),
+      // The street is laid out differently on every template.
+      address: null,
+      municipality: labelValue(text, ["Municipalité", "Municipality", "Ville", "City"], "[A-Za-zÀ-ÿ'-]+(?: [A-Za-zÀ-ÿ'-]+){0,3}"),
+    };
+  },
+};
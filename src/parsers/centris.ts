@@ -0,0 +1,54 @@
+import {
+  labelValue,
+  MONEY_VALUE,
+  municipalityFromAddress,
+  parseAmount,
+  parseCount,
+  parseLotSize,
+  parseMls,
+  parseMoneyText,
+  parseYear,
+  textByClass,
+  textById,
+  type SiteParser,
+} from "./common.js";
+
+function caracValue(html: string, labels: string[]) {
+  const pattern = /<div[^>]*class=["'][^"']*carac-title[^"']*["'][^>]*>([\s\S]*?)<\/div>\s*<div[^>]*class=["'][^"']*carac-value[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi;
+  for (const match of html.matchAll(pattern)) {
+    const title = match[1].replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+    if (labels.some((label) => title.startsWith(label.toLowerCase()))) {
+      return match[2].replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+    }
+  }
+  return null;
+}
+
+export const centrisParser: SiteParser = {
+  name: "centris",
+  hosts: ["centris.ca"],
+  parse(html, text) {
+    const priceMeta = html.match(/itemprop=["']price["'][^>]*content=["']([\d.]+)["']/i)?.[1];
+    const address = textById(html, "address") ?? textByClass(html, "pt-1");
+    return {
+      mls:
+        parseMls(textById(html, "ListingDisplayId")) ??
+        parseMls(labelValue(text, ["No Centris", "Centris No.", "Centris #", "No. Centris"])),
+      price: parseAmount(priceMeta) ?? parseAmount(textById(html, "BuyPrice")),
+      rooms: parseCount(textByClass(html, "piece")),
+      beds: parseCount(textByClass(html, "cac")),
+      baths: parseCount(textByClass(html, "sdb")),
+      livingArea: parseLotSize(
+        caracValue(html, ["Superficie habitable", "Living area", "Superficie nette", "Net area", "Superficie du bâtiment", "Building area"]),
+      ),
+      lotSize: parseLotSize(caracValue(html, ["Superficie du terrain", "Lot area"])),
+      municipalTax: parseMoneyText(labelValue(text, ["Taxes municipales", "Municipal taxes"], MONEY_VALUE)),
+      schoolTax: parseMoneyText(labelValue(text, ["Taxes scolaires", "School taxes"], MONEY_VALUE)),
+      condoFees: parseMoneyText(labelValue(text, ["Frais de copropriété", "Condominium fees"], MONEY_VALUE)),
+      parking: caracValue(html, ["Stationnement total", "Parking (total)"]),
+      yearBuilt: parseYear(caracValue(html, ["Année de construction", "Year built"])),
+      address,
+      municipality: municipalityFromAddress(address),
+    };
+  },
+};
@@ -0,0 +1,135 @@
+export type SiteListing = {
+  parser: string;
+  mls: string | null;
+  price: number | null;
+  rooms: number | null;
+  beds: number | null;
+  baths: number | null;
+  /** Areas, taxes, fees and parking are kept as written; see `normalizeListingAttributes`. */
+  livingArea: string | null;
+  lotSize: string | null;
+  municipalTax: string | null;
+  schoolTax: string | null;
+  condoFees: string | null;
+  parking: string | null;
+  yearBuilt: number | null;
+  address: string | null;
+  municipality: string | null;
+};
+
+export type SiteParser = {
+  name: string;
+  hosts: string[];
+  parse(html: string, text: string, url: URL): Omit<SiteListing, "parser">;
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function stripTags(fragment: string) {
+  return fragment
+    .replace(/<br\s*\/?>/gi, ", ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;|&#160;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .replace(/\s+,/g, ",")
+    .trim();
+}
+
+/** Inner text of the first element carrying the given id. */
+export function textById(html: string, id: string) {
+  const pattern = new RegExp(`<([a-z0-9]+)[^>]*\\bid\\s*=\\s*["']${escapeRegExp(id)}["'][^>]*>([\\s\\S]*?)</\\1>`, "i");
+  const match = html.match(pattern);
+  return match ? stripTags(match[2]) || null : null;
+}
+
+/** Inner text of every element whose class list contains the given class. */
+export function textsByClass(html: string, className: string) {
+  const pattern = new RegExp(
+    `<([a-z0-9]+)[^>]*\\bclass\\s*=\\s*["'][^"']*\\b${escapeRegExp(className)}\\b[^"']*["'][^>]*>([\\s\\S]*?)</\\1>`,
+    "gi",
+  );
+  return [...html.matchAll(pattern)].map((match) => stripTags(match[2])).filter(Boolean);
+}
+
+export function textByClass(html: string, className: string) {
+  return textsByClass(html, className)[0] ?? null;
+}
+
+/**
+ * Reads "Label: value" / "Label value" pairs out of flattened page text. The
+ * value runs until the next label-looking boundary, so keep `maxLength` tight.
+ */
+export function labelValue(text: string, labels: string[], valuePattern = "[^\\n|]{1,40}") {
+  for (const label of labels) {
+    const match = text.match(new RegExp(`(?<![A-Za-zÀ-ÿ])${escapeRegExp(label)}\\s*(?:#|:|n°|no\\.?)?\\s*(${valuePattern})`, "i"));
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/** Parses "$1,250,000", "1 250 000 $" and "599000" style amounts. */
+export function parseAmount(value: string | null | undefined) {
+  if (!value) return null;
+  const match = value.replace(/[\u00a0\u202f]/g, " ").match(/\d{1,3}(?:[ ,.]\d{3})+|\d+/);
+  if (!match) return null;
+  const n = Number(match[0].replace(/[ ,.]/g, ""));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function parseCount(value: string | null | undefined) {
+  if (!value) return null;
+  const match = value.match(/\d+(?:[.,]\d+)?/);
+  if (!match) return null;
+  const n = Number(match[0].replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseYear(value: string | null | undefined) {
+  const match = value?.match(/\b(1[6-9]\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+/** An area or lot dimensions as written, e.g. "4 654 pi²" or "25 X 100 pi". */
+export function parseLotSize(value: string | null | undefined) {
+  if (!value) return null;
+  const match =
+    value.match(/[\d\s,.]+\s*[x×]\s*[\d\s,.]+\s*(?:pi|ft|m)\b/i) ??
+    value.match(/[\d\s,.]+\s*(?:pi²|pc|sq\.?\s?ft|sqft|ft²|m²|m2|ac(?:res?)?|hectares?)/i);
+  return match ? match[0].replace(/\s+/g, " ").trim() : null;
+}
+
+/** `labelValue` pattern for an amount with an optional "(2024)" year before it and period after it. */
+export const MONEY_VALUE = "(?:\\(\\d{4}\\)\\s*:?\\s*)?\\$?\\s?\\d[\\d\\s,.]*\\s?\\$?(?:\\s*(?:/|par|per)\\s*[A-Za-zé]+)?";
+
+/** An amount with its year and period, e.g. "(2024) 3 250 $ / an", or null when there's no number. */
+export function parseMoneyText(value: string | null | undefined) {
+  return value && /\d/.test(value) ? value.replace(/\s+/g, " ").trim() : null;
+}
+
+export function parseMls(value: string | null | undefined) {
+  const match = value?.match(/\b(\d{7,9})\b/);
+  return match ? match[1] : null;
+}
+
+/** City from a "street, City, QC H0H 0H0" or "street, City (Borough)" address. */
+export function municipalityFromAddress(address: string | null | undefined) {
+  if (!address) return null;
+  const parts = address
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  for (let i = parts.length - 1; i >= 1; i -= 1) {
+    const candidate = parts[i]
+      .replace(/\s*\(.*\)$/, "")
+      .replace(/\b(QC|Qu[ée]bec)\b.*$/i, "")
+      .replace(/\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/i, "")
+      .trim();
+    if (candidate && !/^\d/.test(candidate)) return candidate;
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+import {
+  labelValue,
+  parseAmount,
+  parseCount,
+  parseLotSize,
+  parseMoneyText,
+  parseYear,
+  stripTags,
+  textByClass,
+  type SiteParser,
+} from "./common.js";
+
+function characteristic(html: string, labels: string[]) {
+  const pattern = /listing-main-characteristics__label[^>]*>([\s\S]*?)<\/[a-z]+>[\s\S]*?listing-main-characteristics__number[^>]*>([\s\S]*?)<\/[a-z]+>/gi;
+  for (const match of html.matchAll(pattern)) {
+    const label = stripTags(match[1]).toLowerCase();
+    if (labels.some((candidate) => label.includes(candidate.toLowerCase()))) return stripTags(match[2]);
+  }
+  return null;
+}
+
+function dottedRow(html: string, labels: string[]) {
+  const pattern = /listing-box__dotted-row[^>]*>([\s\S]*?)<\/div>\s*<\/div>/gi;
+  for (const match of html.matchAll(pattern)) {
+    const row = stripTags(match[1]);
+    const label = labels.find((candidate) => row.toLowerCase().startsWith(candidate.toLowerCase()));
+    if (label) return row.slice(label.length).trim();
+  }
+  return null;
+}
+
+// DuProprio listings are sold by owners and carry no MLS® / Centris number.
+export const duproprioParser: SiteParser = {
+  name: "duproprio",
+  hosts: ["duproprio.com"],
+  parse(html, text) {
+    const municipality =
+      textByClass(html, "listing-location__city") ??
+      labelValue(text, ["Municipalité", "Municipality"], "[A-Za-zÀ-ÿ' -]{2,40}");
+    const street = textByClass(html, "listing-location__street");
+    return {
+      mls: null,
+      price: parseAmount(textByClass(html, "listing-price__amount")),
+      rooms: parseCount(characteristic(html, ["pièces", "rooms"])),
+      beds: parseCount(characteristic(html, ["chambre", "bedroom"])),
+      baths: parseCount(characteristic(html, ["salle de bain", "salles de bain", "bathroom"])),
+      livingArea: parseLotSize(dottedRow(html, ["Aire habitable", "Superficie habitable", "Living space area", "Living area"])),
+      lotSize: parseLotSize(dottedRow(html, ["Dimensions du terrain", "Superficie du terrain", "Lot dimensions", "Lot area"])),
+      municipalTax: parseMoneyText(dottedRow(html, ["Taxes municipales", "Municipal taxes"])),
+      schoolTax: parseMoneyText(dottedRow(html, ["Taxes scolaires", "School taxes"])),
+      condoFees: parseMoneyText(dottedRow(html, ["Frais de copropriété", "Condo fees", "Condominium fees"])),
+      parking: dottedRow(html, ["Stationnement", "Parking"]),
+      yearBuilt: parseYear(dottedRow(html, ["Année de construction", "Year of construction"])),
+      address: street ? [street, municipality?.trim()].filter(Boolean).join(", ") : null,
+      municipality: municipality ? municipality.trim() : null,
+    };
+  },
+};
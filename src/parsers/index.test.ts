@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import { test } from "node:test";
+import { parseListingSite } from "./index.js";
+
+// Saved pages, trimmed to the parts the parsers read.
+async function parseFixture(name: string, url: string) {
+  const html = await readFile(`fixtures/pages/${name}.html`, "utf8");
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return parseListingSite(url, html, text);
+}
+
+test("centris", async () => {
+  const listing = await parseFixture("centris", "https://www.centris.ca/fr/condo~a-vendre~laval-chomedey/12345678");
+  assert.equal(listing?.parser, "centris");
+  assert.equal(listing?.mls, "12345678");
+  assert.equal(listing?.price, 429000);
+  assert.equal(listing?.rooms, 6);
+  assert.equal(listing?.beds, 2);
+  assert.equal(listing?.baths, 1);
+  assert.equal(listing?.livingArea, "1 050 pc");
+  assert.equal(listing?.municipalTax, "(2025) 2 640 $");
+  assert.equal(listing?.schoolTax, "(2025) 285 $");
+  assert.equal(listing?.condoFees, "310 $ / mois");
+  assert.equal(listing?.parking, "Garage (1)");
+  assert.equal(listing?.yearBuilt, 2008);
+  assert.equal(listing?.address, "3500, boulevard du Souvenir, app. 402, Laval (Chomedey)");
+  assert.equal(listing?.municipality, "Laval");
+});
+
+test("realtor.ca", async () => {
+  const listing = await parseFixture("realtor", "https://www.realtor.ca/real-estate/27000000/1450-rue-fleury-e-montreal");
+  assert.equal(listing?.parser, "realtor.ca");
+  assert.equal(listing?.mls, "22334455");
+  assert.equal(listing?.price, 489000);
+  assert.equal(listing?.beds, 2);
+  assert.equal(listing?.baths, 1);
+  assert.equal(listing?.livingArea, "875 sqft");
+  assert.equal(listing?.condoFees, "$265 Monthly");
+  assert.equal(listing?.parking, "1");
+  assert.equal(listing?.yearBuilt, 1962);
+  assert.equal(listing?.address, "1450 Rue Fleury E, Montréal (Ahuntsic-Cartierville), Quebec H2C1R9");
+  assert.equal(listing?.municipality, "Montréal");
+});
+
+test("duproprio", async () => {
+  const listing = await parseFixture("duproprio", "https://duproprio.com/fr/rive-sud/longueuil/maison-a-vendre/hab-845-rue-saint-charles-est-1100000");
+  assert.equal(listing?.parser, "duproprio");
+  assert.equal(listing?.mls, null);
+  assert.equal(listing?.price, 574900);
+  assert.equal(listing?.rooms, 9);
+  assert.equal(listing?.beds, 3);
+  assert.equal(listing?.baths, 2);
+  assert.equal(listing?.livingArea, "1 640 pi²");
+  assert.equal(listing?.lotSize, "50 x 110 pi");
+  assert.equal(listing?.municipalTax, "3 910 $ / an");
+  assert.equal(listing?.schoolTax, "402 $ / an");
+  assert.equal(listing?.parking, "Allée (2), Garage (1)");
+  assert.equal(listing?.yearBuilt, 1978);
+  assert.equal(listing?.address, "845, rue Saint-Charles Est, Longueuil");
+  assert.equal(listing?.municipality, "Longueuil");
+});
+
+test("brokerage site skips a price label with no amount after it", async () => {
+  const listing = await parseFixture("royallepage", "https://www.royallepage.ca/fr/property/quebec/montreal/2215-rue-beaubien-est/19876543/");
+  assert.equal(listing?.parser, "brokerage");
+  assert.equal(listing?.mls, "19876543");
+  assert.equal(listing?.price, 689000);
+  assert.equal(listing?.beds, 4);
+  assert.equal(listing?.baths, 2);
+  assert.equal(listing?.livingArea, "1 980 pi²");
+  assert.equal(listing?.lotSize, "2 450 pi²");
+  assert.equal(listing?.municipalTax, "4 120 $");
+  assert.equal(listing?.yearBuilt, 1925);
+  assert.equal(listing?.municipality, "Montréal");
+});
@@ -0,0 +1,46 @@
+import { brokerageParser } from "./brokerage.js";
+import { centrisParser } from "./centris.js";
+import type { SiteListing, SiteParser } from "./common.js";
+import { duproprioParser } from "./duproprio.js";
+import { realtorParser } from "./realtor.js";
+
+export type { SiteListing, SiteParser } from "./common.js";
+
+const registry = new Map<string, SiteParser>();
+
+export function registerSiteParser(parser: SiteParser) {
+  for (const host of parser.hosts) {
+    registry.set(host.toLowerCase().replace(/^www\./, ""), parser);
+  }
+}
+
+[centrisParser, realtorParser, duproprioParser, brokerageParser].forEach(registerSiteParser);
+
+/** Finds the parser for a hostname, matching parent domains (e.g. fr.centris.ca). */
+export function findSiteParser(hostname: string): SiteParser | null {
+  const labels = hostname.toLowerCase().replace(/^www\./, "").split(".");
+  for (let i = 0; i < labels.length - 1; i += 1) {
+    const parser = registry.get(labels.slice(i).join("."));
+    if (parser) return parser;
+  }
+  return null;
+}
+
+/**
+ * Runs the registered site parser for `url`, if any. Returns null for unknown
+ * hosts and for pages where the parser recognised nothing.
+ */
+export function parseListingSite(url: string, html: string, text: string): SiteListing | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  const parser = findSiteParser(parsed.hostname);
+  if (!parser) return null;
+
+  const result = parser.parse(html, text, parsed);
+  const hasFacts = Object.values(result).some((value) => value != null);
+  return hasFacts ? { parser: parser.name, ...result } : null;
+}
@@ -0,0 +1,60 @@
+import {
+  labelValue,
+  municipalityFromAddress,
+  parseAmount,
+  parseCount,
+  parseLotSize,
+  parseMls,
+  parseMoneyText,
+  parseYear,
+  textById,
+  type SiteParser,
+} from "./common.js";
+
+function iconCount(html: string, id: string) {
+  const match = html.match(
+    new RegExp(`id=["']${id}["'][\\s\\S]*?class=["'][^"']*listingIconNum[^"']*["'][^>]*>\\s*([\\d.]+)`, "i"),
+  );
+  return match ? parseCount(match[1]) : null;
+}
+
+function detailValue(html: string, labels: string[]) {
+  const pattern = /propertyDetailsSectionContentLabel[^>]*>([\s\S]*?)<\/div>\s*<div[^>]*propertyDetailsSectionContentValue[^>]*>([\s\S]*?)<\/div>/gi;
+  for (const match of html.matchAll(pattern)) {
+    const label = match[1].replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim().toLowerCase();
+    if (labels.some((candidate) => label === candidate.toLowerCase())) {
+      return match[2].replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+    }
+  }
+  return null;
+}
+
+export const realtorParser: SiteParser = {
+  name: "realtor.ca",
+  hosts: ["realtor.ca"],
+  parse(html, text) {
+    const address = textById(html, "listingAddress");
+    return {
+      mls:
+        parseMls(textById(html, "MLNumberVal")) ??
+        parseMls(labelValue(text, ["MLS® Number", "Numéro MLS®", "MLS®"])),
+      price: parseAmount(textById(html, "listingPriceValue")),
+      rooms: null,
+      beds: iconCount(html, "BedroomIcon"),
+      baths: iconCount(html, "BathroomIcon"),
+      livingArea: parseLotSize(
+        detailValue(html, ["Total Finished Area", "Superficie totale finie", "Building Area", "Superficie du bâtiment"]),
+      ),
+      lotSize: parseLotSize(detailValue(html, ["Land Size", "Superficie du terrain", "Taille du terrain"])),
+      // Realtor.ca shows one combined property tax figure, which can't be split
+      // into municipal and school taxes.
+      municipalTax: null,
+      schoolTax: null,
+      condoFees: parseMoneyText(detailValue(html, ["Maintenance Fees", "Frais d'entretien", "Frais de copropriété"])),
+      parking: detailValue(html, ["Total Parking Spaces", "Nombre total de places de stationnement", "Stationnement total"]),
+      yearBuilt: parseYear(detailValue(html, ["Built in", "Construit en", "Année de construction"])),
+      address,
+      municipality: municipalityFromAddress(address),
+    };
+  },
+};
@@ -0,0 +1,155 @@
+import type { AgentListing, AgentSource } from "./agent.js";
+
+/**
+ * The subset of JSON Schema used here: `type` (one name or a list),
+ * `properties`, `required`, `additionalProperties`, `items`, `enum`,
+ * `minimum`. It is also what OpenAI strict structured outputs accept.
+ */
+export type JsonSchema = {
+  type: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+};
+
+export type NamedJsonSchema = {
+  name: string;
+  schema: JsonSchema;
+};
+
+export type AgentAnswer = {
+  listings: AgentListing[];
+  sources: AgentSource[];
+  notes_en: string | null;
+  notes_fr: string | null;
+};
+
+const nullableString: JsonSchema = { type: ["string", "null"] };
+const nullableCount: JsonSchema = { type: ["number", "null"], minimum: 0 };
+// Amounts and areas keep the page's wording ("3 250 $ / an", "1 150 pi²") so
+// units and periods survive until normalization.
+const nullableQuantity: JsonSchema = { type: ["number", "string", "null"] };
+
+function strictObject(properties: Record<string, JsonSchema>): JsonSchema {
+  return { type: "object", properties, required: Object.keys(properties), additionalProperties: false };
+}
+
+// Strict mode requires every property to be listed in `required`, so optional
+// facts are nullable rather than omitted.
+export const AGENT_ANSWER_SCHEMA: NamedJsonSchema = {
+  name: "listing_answer",
+  schema: strictObject({
+    listings: {
+      type: "array",
+      items: strictObject({
+        mls: nullableString,
+        url: nullableString,
+        address: nullableString,
+        price: nullableCount,
+        beds: nullableCount,
+        baths: nullableCount,
+        type: nullableString,
+        municipal_tax: nullableQuantity,
+        school_tax: nullableQuantity,
+        condo_fees: nullableQuantity,
+        living_area: nullableQuantity,
+        lot_size: nullableQuantity,
+        year_built: nullableCount,
+        parking: nullableQuantity,
+        listed_at: nullableString,
+        days_on_market: nullableCount,
+        photos: { type: ["array", "null"], items: { type: "string" } },
+        note_en: nullableString,
+        note_fr: nullableString,
+        source: nullableString,
+      }),
+    },
+    notes_en: nullableString,
+    notes_fr: nullableString,
+    sources: {
+      type: "array",
+      items: strictObject({
+        title: nullableString,
+        url: { type: "string" },
+        details: nullableString,
+      }),
+    },
+  }),
+};
+
+// ---------- Validation ----------
+function typeOf(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Returns field-level errors such as `listings[2].price: expected number or
+ * null, got string`. A missing property whose type allows null reads as null,
+ * so answers from backends without structured outputs aren't rejected for
+ * leaving out unknown facts.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some((type) => matchesType(value, type))) {
+    return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+  }
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`);
+  }
+  if (schema.minimum != null && typeof value === "number" && value < schema.minimum) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${index}]`)));
+  }
+  if (typeOf(value) === "object" && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      const property = schema.properties[key];
+      const nullable = Array.isArray(property?.type) ? property.type.includes("null") : property?.type === "null";
+      if (!(key in record) && !nullable) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties[key];
+      if (property) errors.push(...validateJson(item, property, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key}: is not allowed`);
+    }
+  }
+  return errors;
+}
+
+export type ParsedAnswer = {
+  /** The parsed JSON, even when it failed validation; null when it didn't parse. */
+  answer: Partial<AgentAnswer> | null;
+  errors: string[];
+};
+
+/** Parses and validates the agent's final message. Code fences around the JSON are tolerated. */
+export function parseAgentAnswer(raw: string): ParsedAnswer {
+  const text = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  if (!text) return { answer: null, errors: ["$: response was empty"] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    return { answer: null, errors: [`$: not valid JSON (${String(error?.message || error)})`] };
+  }
+  const errors = validateJson(parsed, AGENT_ANSWER_SCHEMA.schema);
+  return { answer: typeOf(parsed) === "object" ? (parsed as Partial<AgentAnswer>) : null, errors };
+}
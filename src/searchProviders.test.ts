@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { registerSearchProvider, searchWithProviders } from "./searchProviders.js";
+
+test("results that differ only by tracking parameters are merged", async () => {
+  registerSearchProvider({
+    name: "static",
+    async search() {
+      return [
+        { title: "A", url: "https://www.duproprio.com/fr/listing?id=1100000", snippet: null },
+        { title: "B", url: "https://duproprio.com/fr/listing?id=1100001", snippet: null },
+        { title: "A again", url: "https://duproprio.com/fr/listing?id=1100000&utm_source=mail#photos", snippet: null },
+        { title: "C", url: "https://example.com/Listing/ABC123", snippet: null },
+        { title: "D", url: "https://example.com/listing/abc123", snippet: null },
+      ];
+    },
+  });
+  process.env.SEARCH_PROVIDERS = "static";
+
+  const outcome = await searchWithProviders("condo", 10);
+  assert.deepEqual(outcome.results.map((result) => result.title), ["A", "B", "C", "D"]);
+});
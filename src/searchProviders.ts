@@ -0,0 +1,195 @@
+import { readFile } from "fs/promises";
+import { normalizeListingUrl } from "./dedupe.js";
+
+export type SearchResult = {
+  title: string | null;
+  url: string | null;
+  snippet: string | null;
+};
+
+export interface SearchProvider {
+  name: string;
+  search(query: string, maxResults: number, signal?: AbortSignal): Promise<SearchResult[]>;
+}
+
+export type SearchOutcome = {
+  results: SearchResult[];
+  providers: string[];
+  errors: string[];
+};
+
+function clampResults(maxResults: number) {
+  return Math.min(Math.max(maxResults, 1), 10);
+}
+
+function toSearchResult(item: any): SearchResult {
+  return {
+    title: item?.title || null,
+    url: item?.url || item?.link || null,
+    snippet: item?.content || item?.snippet || item?.description || null,
+  };
+}
+
+// ---------- Tavily ----------
+export const tavilyProvider: SearchProvider = {
+  name: "tavily",
+  async search(query, maxResults, signal) {
+    const apiKey = process.env.TAVILY_API_KEY;
+    if (!apiKey) throw new Error("TAVILY_API_KEY is not configured");
+
+    const body = {
+      api_key: apiKey,
+      query,
+      search_depth: "advanced",
+      max_results: clampResults(maxResults),
+      include_images: false,
+      include_answer: false,
+    };
+
+    const response = await fetch(process.env.TAVILY_API_URL || "https://api.tavily.com/search", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Tavily API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const results = Array.isArray(data?.results) ? data.results : [];
+    return results.map(toSearchResult);
+  },
+};
+
+// ---------- Generic JSON endpoint (SearXNG, Brave, ...) ----------
+function readPath(value: any, path: string) {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce((current, key) => (current == null ? current : current[key]), value);
+}
+
+/**
+ * Any GET endpoint returning JSON. `SEARCH_JSON_URL` holds the URL with a
+ * `{query}` placeholder (and optional `{max}`), `SEARCH_JSON_RESULTS_PATH` the
+ * dotted path to the results array, and `SEARCH_JSON_HEADERS` extra headers as
+ * a JSON object (e.g. `{"X-Subscription-Token": "..."}` for Brave).
+ */
+export const jsonEndpointProvider: SearchProvider = {
+  name: "json",
+  async search(query, maxResults, signal) {
+    const template = process.env.SEARCH_JSON_URL;
+    if (!template) throw new Error("SEARCH_JSON_URL is not configured");
+
+    let headers: Record<string, string> = {};
+    if (process.env.SEARCH_JSON_HEADERS) {
+      try {
+        headers = JSON.parse(process.env.SEARCH_JSON_HEADERS);
+      } catch {
+        throw new Error("SEARCH_JSON_HEADERS is not valid JSON");
+      }
+    }
+
+    const url = template
+      .replace("{query}", encodeURIComponent(query))
+      .replace("{max}", String(clampResults(maxResults)));
+    const response = await fetch(url, { headers: { Accept: "application/json", ...headers }, signal });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Search endpoint error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const results = readPath(data, process.env.SEARCH_JSON_RESULTS_PATH || "results");
+    return (Array.isArray(results) ? results : []).slice(0, clampResults(maxResults)).map(toSearchResult);
+  },
+};
+
+// ---------- Offline fixtures ----------
+let fixtureCache: Record<string, unknown[]> | null = null;
+
+function fixtureKey(query: string) {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Replays recorded results from `SEARCH_FIXTURES_PATH`, a JSON object mapping
+ * queries to result arrays. The `"*"` entry is served for unknown queries.
+ */
+export const fixtureProvider: SearchProvider = {
+  name: "fixture",
+  async search(query, maxResults) {
+    const path = process.env.SEARCH_FIXTURES_PATH;
+    if (!path) throw new Error("SEARCH_FIXTURES_PATH is not configured");
+    if (!fixtureCache) {
+      const raw = JSON.parse(await readFile(path, "utf8")) as Record<string, unknown[]>;
+      fixtureCache = Object.fromEntries(Object.entries(raw).map(([key, value]) => [fixtureKey(key), value]));
+    }
+    const results = fixtureCache[fixtureKey(query)] ?? fixtureCache["*"] ?? [];
+    return results.slice(0, clampResults(maxResults)).map(toSearchResult);
+  },
+};
+
+// ---------- Chain ----------
+const providers = new Map<string, SearchProvider>();
+
+export function registerSearchProvider(provider: SearchProvider) {
+  providers.set(provider.name, provider);
+}
+
+[tavilyProvider, jsonEndpointProvider, fixtureProvider].forEach(registerSearchProvider);
+
+function configuredChain() {
+  const names = (process.env.SEARCH_PROVIDERS || "tavily")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  return names.map((name) => providers.get(name) ?? name);
+}
+
+/**
+ * Runs the query through the providers named in `SEARCH_PROVIDERS`, in order.
+ * A provider that fails or returns nothing falls through to the next one. In
+ * the default `fallback` mode the chain stops once `maxResults` unique URLs are
+ * collected; `SEARCH_PROVIDER_MODE=merge` always queries every provider.
+ * An aborted `signal` stops the chain instead of falling through.
+ */
+export async function searchWithProviders(query: string, maxResults: number, signal?: AbortSignal): Promise<SearchOutcome> {
+  const mergeAll = process.env.SEARCH_PROVIDER_MODE === "merge";
+  const limit = clampResults(maxResults);
+  const seen = new Set<string>();
+  const outcome: SearchOutcome = { results: [], providers: [], errors: [] };
+
+  for (const provider of configuredChain()) {
+    if (typeof provider === "string") {
+      outcome.errors.push(`Unknown search provider: ${provider}`);
+      continue;
+    }
+    try {
+      const results = await provider.search(query, limit, signal);
+      let added = 0;
+      for (const result of results) {
+        // Query strings and path case can identify different listings, so only
+        // tracking noise is ignored.
+        const key = normalizeListingUrl(result.url);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        outcome.results.push(result);
+        added += 1;
+      }
+      if (added > 0) outcome.providers.push(provider.name);
+    } catch (error: any) {
+      if (signal?.aborted) throw signal.reason ?? error;
+      outcome.errors.push(`${provider.name}: ${String(error?.message || error)}`);
+    }
+    if (!mergeAll && outcome.results.length >= limit) break;
+  }
+
+  if (!mergeAll) outcome.results = outcome.results.slice(0, limit);
+  return outcome;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "fs/promises";
+import { test } from "node:test";
+
+// Module settings are read at import time, so they're set before loading the searches.
+process.env.LISTING_SEARCHES_PATH = "dist/test-data/searches.json";
+process.env.LISTING_OUTBOX_PATH = "dist/test-data/outbox.jsonl";
+process.env.LISTING_STORE_PATH = "dist/test-data/searches-listings.json";
+process.env.LISTING_API_KEYS_PATH = "dist/test-data/searches-keys.json";
+process.env.LISTING_USAGE_PATH = "dist/test-data/searches-usage.json";
+delete process.env.OPENAI_API_KEY;
+delete process.env.LLM_API_KEY;
+delete process.env.LISTING_CASSETTE_MODE;
+
+const SNAPSHOT = {
+  "MLS:12345678": { mls: "12345678", url: "https://www.centris.ca/fr/condo~a-vendre~laval/12345678", address: null, price: 429000 },
+};
+const CLIENT = { name: "web-app", key: "secret", tokensPerDay: 1000 };
+const TODAY = new Date().toISOString().slice(0, 10);
+
+function savedSearch(id: string, owner: string | null, snapshot: unknown) {
+  return {
+    id,
+    owner,
+    name: "Condos in Laval",
+    input_as_text: "Condo 2 chambres à Laval",
+    input_variables: {},
+    schedule: { everyMinutes: 60 },
+    webhookUrl: null,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    lastRunAt: null,
+    nextRunAt: "2026-01-01T01:00:00.000Z",
+    lastError: null,
+    snapshot,
+  };
+}
+
+// The stores keep what they load in memory, so every file is written up front.
+await mkdir("dist/test-data", { recursive: true });
+await writeFile(
+  "dist/test-data/searches.json",
+  JSON.stringify({
+    version: 1,
+    searches: { "search-1": savedSearch("search-1", null, SNAPSHOT), "search-2": savedSearch("search-2", "web-app", null) },
+  }),
+  "utf8",
+);
+await writeFile("dist/test-data/searches-keys.json", JSON.stringify({ keys: [CLIENT] }), "utf8");
+await writeFile(
+  "dist/test-data/searches-usage.json",
+  JSON.stringify({ version: 1, clients: { "web-app": { [TODAY]: { requests: 3, workflowRuns: 2, tokens: 1000, estimatedCostUsd: 0 } } } }),
+  "utf8",
+);
+
+const { getSearch, listSearches, runSavedSearch, runScheduledSearch } = await import("./searches.js");
+
+test("a failed agent run keeps the previous snapshot and sends no alert", async () => {
+  const outcome = await runSavedSearch("search-1");
+  assert.equal(outcome?.alert, null);
+  assert.match(outcome?.search.lastError ?? "", /^Agent run failed: OPENAI_API_KEY is not configured/);
+
+  const stored = await getSearch("search-1");
+  assert.deepEqual(stored?.snapshot, SNAPSHOT);
+  assert.ok(stored?.lastRunAt);
+});
+
+test("searches are only visible to their owner, and scheduled runs stop at the owner's quota", async () => {
+  assert.equal(await getSearch("search-2"), null);
+  assert.deepEqual(await listSearches({ name: "partner" }), []);
+  const search = await getSearch("search-2", CLIENT);
+  assert.equal(search?.id, "search-2");
+
+  const now = new Date("2026-01-01T01:00:00.000Z");
+  assert.equal(await runScheduledSearch(search!, now), null);
+  const stored = await getSearch("search-2", CLIENT);
+  assert.equal(stored?.lastError, "Skipped: Daily token budget exceeded: 1000 tokens");
+  assert.equal(stored?.lastRunAt, null);
+  assert.equal(stored?.nextRunAt, "2026-01-01T02:00:00.000Z");
+});
@@ -0,0 +1,299 @@
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import { dailyQuotaExceeded, findClient, recordClientUsage, type ApiClient } from "./auth.js";
+import { fetchPublicUrl } from "./fetcher.js";
+import { createJsonFileStore } from "./jsonFile.js";
+import { createUsageMeter } from "./llm.js";
+import { runWorkflow, type NormalizedListing } from "./main.js";
+import { listingStoreKey } from "./store.js";
+
+const SEARCHES_PATH = process.env.LISTING_SEARCHES_PATH || "data/searches.json";
+const OUTBOX_PATH = process.env.LISTING_OUTBOX_PATH || "data/outbox.jsonl";
+const DEFAULT_WEBHOOK_URL = process.env.LISTING_ALERT_WEBHOOK_URL || "";
+const SCHEDULER_TICK_MS = Number(process.env.LISTING_SCHEDULER_TICK_MS || 60_000);
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const MIN_INTERVAL_MINUTES = 5;
+
+export type SearchSchedule = {
+  /** Re-run every N minutes. */
+  everyMinutes?: number;
+  /** Re-run once a day at "HH:MM" (server local time). */
+  dailyAt?: string;
+};
+
+type ListingSnapshot = Pick<NormalizedListing, "mls" | "url" | "address" | "price">;
+
+export type SavedSearch = {
+  id: string;
+  /** Owning API client; other clients can't see the search, and scheduled runs count toward its quota. */
+  owner: string | null;
+  name: string;
+  input_as_text: string;
+  input_variables: Record<string, unknown>;
+  schedule: SearchSchedule;
+  webhookUrl: string | null;
+  createdAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string;
+  lastError: string | null;
+  snapshot: Record<string, ListingSnapshot> | null;
+};
+
+export type SearchAlert = {
+  searchId: string;
+  searchName: string;
+  runAt: string;
+  newListings: ListingSnapshot[];
+  priceChanges: Array<ListingSnapshot & { previousPrice: number | null }>;
+  removedListings: ListingSnapshot[];
+};
+
+type SearchesFile = {
+  version: 1;
+  searches: Record<string, SavedSearch>;
+};
+
+const file = createJsonFileStore<SearchesFile>(
+  SEARCHES_PATH,
+  () => ({ version: 1, searches: {} }),
+  (data) => Boolean(data?.searches),
+);
+
+// ---------- Schedules ----------
+export function validateSchedule(schedule: unknown): SearchSchedule | string {
+  if (!schedule || typeof schedule !== "object") return "schedule is required";
+  const record = schedule as Record<string, unknown>;
+  if (record.dailyAt != null) {
+    if (typeof record.dailyAt !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(record.dailyAt)) {
+      return "schedule.dailyAt must be HH:MM";
+    }
+    return { dailyAt: record.dailyAt };
+  }
+  const every = Number(record.everyMinutes);
+  if (!Number.isFinite(every) || every < MIN_INTERVAL_MINUTES) {
+    return `schedule.everyMinutes must be a number >= ${MIN_INTERVAL_MINUTES}`;
+  }
+  return { everyMinutes: Math.round(every) };
+}
+
+export function nextRunAfter(schedule: SearchSchedule, from: Date) {
+  if (schedule.dailyAt) {
+    const [hours, minutes] = schedule.dailyAt.split(":").map(Number);
+    const next = new Date(from);
+    next.setHours(hours, minutes, 0, 0);
+    if (next.getTime() <= from.getTime()) next.setDate(next.getDate() + 1);
+    return next;
+  }
+  return new Date(from.getTime() + (schedule.everyMinutes ?? 24 * 60) * 60_000);
+}
+
+// ---------- CRUD ----------
+type NewSearch = Pick<SavedSearch, "name" | "input_as_text" | "input_variables" | "schedule" | "webhookUrl"> & {
+  client?: ApiClient | null;
+};
+
+function ownedBy(search: SavedSearch | undefined, client: ApiClient | null) {
+  // Searches saved before owners were recorded belong to no client.
+  return search && (search.owner ?? null) === (client?.name ?? null) ? search : null;
+}
+
+export function createSearch({ client, ...input }: NewSearch, now = new Date()) {
+  const search: SavedSearch = {
+    ...input,
+    id: crypto.randomUUID(),
+    owner: client?.name ?? null,
+    createdAt: now.toISOString(),
+    lastRunAt: null,
+    nextRunAt: nextRunAfter(input.schedule, now).toISOString(),
+    lastError: null,
+    snapshot: null,
+  };
+  return file.update((data) => {
+    data.searches[search.id] = search;
+    return search;
+  });
+}
+
+export function listSearches(client: ApiClient | null = null) {
+  return file.read((data) =>
+    Object.values(data.searches)
+      .filter((search) => ownedBy(search, client))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  );
+}
+
+export function getSearch(id: string, client: ApiClient | null = null) {
+  return file.read((data) => ownedBy(data.searches[id], client));
+}
+
+export function deleteSearch(id: string, client: ApiClient | null = null) {
+  return file.update((data) => {
+    if (!ownedBy(data.searches[id], client)) return false;
+    delete data.searches[id];
+    return true;
+  });
+}
+
+// ---------- Runs ----------
+function snapshotOf(listings: NormalizedListing[]) {
+  const snapshot: Record<string, ListingSnapshot> = {};
+  for (const listing of listings) {
+    const key = listingStoreKey(listing);
+    if (key) snapshot[key] = { mls: listing.mls, url: listing.url, address: listing.address, price: listing.price };
+  }
+  return snapshot;
+}
+
+export function diffSnapshots(
+  previous: Record<string, ListingSnapshot> | null,
+  current: Record<string, ListingSnapshot>,
+) {
+  const before = previous ?? {};
+  return {
+    newListings: Object.keys(current)
+      .filter((key) => !before[key])
+      .map((key) => current[key]),
+    priceChanges: Object.keys(current)
+      .filter((key) => before[key] && before[key].price !== current[key].price)
+      .map((key) => ({ ...current[key], previousPrice: before[key].price })),
+    removedListings: Object.keys(before)
+      .filter((key) => !current[key])
+      .map((key) => before[key]),
+  };
+}
+
+async function writeOutbox(alert: SearchAlert) {
+  await mkdir(dirname(OUTBOX_PATH), { recursive: true });
+  await appendFile(OUTBOX_PATH, JSON.stringify(alert) + "\n", "utf8");
+}
+
+async function deliverAlert(alert: SearchAlert, webhookUrl: string | null) {
+  const target = webhookUrl || DEFAULT_WEBHOOK_URL;
+  if (!target) {
+    await writeOutbox(alert);
+    return;
+  }
+  try {
+    // Same address rules as page fetches; redirects aren't followed.
+    const response = await fetchPublicUrl(target, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+  } catch (error) {
+    // Keep the alert rather than dropping it when the receiver is down.
+    await writeOutbox(alert);
+    throw error;
+  }
+}
+
+/** Re-runs one saved search, diffs it against the previous run and delivers changes. */
+export async function runSavedSearch(id: string, now = new Date()) {
+  const search = await file.read((data) => data.searches[id] ?? null);
+  if (!search) return null;
+
+  let alert: SearchAlert | null = null;
+  let lastError: string | null = null;
+  let snapshot = search.snapshot;
+  // Failed runs spend tokens too, so usage comes from the client rather than the output.
+  const meter = createUsageMeter();
+  try {
+    const result = await runWorkflow(
+      { input_as_text: search.input_as_text, input_variables: search.input_variables },
+      { onUsage: meter.add },
+    );
+    if (!("output_parsed" in result)) throw new Error("Saved search was blocked by guardrails");
+    // A failed agent run finds nothing; diffing it would report every known
+    // listing as removed, so the previous snapshot stays as it is.
+    if (result.output_parsed.agentFailed) {
+      throw new Error(`Agent run failed: ${result.output_parsed.warnings.join("; ") || "no answer"}`);
+    }
+
+    snapshot = snapshotOf(result.output_parsed.listings);
+    const diff = diffSnapshots(search.snapshot, snapshot);
+    if (diff.newListings.length || diff.priceChanges.length || diff.removedListings.length) {
+      alert = { searchId: search.id, searchName: search.name, runAt: now.toISOString(), ...diff };
+      await deliverAlert(alert, search.webhookUrl);
+    }
+  } catch (error: any) {
+    lastError = String(error?.message || error);
+  }
+
+  return file.update((data) => {
+    const current = data.searches[id];
+    if (!current) return null;
+    current.lastRunAt = now.toISOString();
+    current.nextRunAt = nextRunAfter(current.schedule, now).toISOString();
+    current.lastError = lastError;
+    current.snapshot = snapshot;
+    return { search: current, alert, usage: meter.total() };
+  });
+}
+
+// ---------- Scheduler ----------
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/** Pushes a search to its next slot without running it, noting why. */
+function skipRun(id: string, reason: string, now: Date) {
+  return file.update((data) => {
+    const current = data.searches[id];
+    if (!current) return;
+    current.nextRunAt = nextRunAfter(current.schedule, now).toISOString();
+    current.lastError = reason;
+  });
+}
+
+/**
+ * Runs one due search on its owner's behalf: skipped when the owner's key is
+ * gone or its daily quota is used up, otherwise its usage is charged to them.
+ */
+export async function runScheduledSearch(search: SavedSearch, now = new Date()) {
+  const client = search.owner ? await findClient(search.owner) : null;
+  if (search.owner) {
+    const reason = client ? await dailyQuotaExceeded(client) : `API client ${search.owner} no longer exists`;
+    if (reason) {
+      await skipRun(search.id, `Skipped: ${reason}`, now);
+      return null;
+    }
+  }
+  const outcome = await runSavedSearch(search.id, now);
+  if (outcome) await recordClientUsage(client, outcome.usage);
+  return outcome;
+}
+
+async function tick() {
+  if (running) return;
+  running = true;
+  try {
+    const now = new Date();
+    const due = await file.read((data) =>
+      Object.values(data.searches).filter((search) => new Date(search.nextRunAt).getTime() <= now.getTime()),
+    );
+    // Run one at a time so a burst of due searches doesn't fan out into
+    // parallel agent runs against the same API keys.
+    for (const search of due) {
+      const outcome = await runScheduledSearch(search);
+      if (outcome?.search.lastError) {
+        console.error(`Saved search ${search.id} failed: ${outcome.search.lastError}`);
+      }
+    }
+  } catch (error) {
+    console.error(error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startScheduler() {
+  if (timer) return;
+  timer = setInterval(() => void tick(), SCHEDULER_TICK_MS);
+}
+
+export function stopScheduler() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
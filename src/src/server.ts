@@ -1,27 +1,46 @@
-import { createServer } from "http";
-import { runWorkflow } from "../main.js";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { authenticateRequest, getClientUsage, recordClientUsage, type ApiClient } from "../auth.js";
+import { exportOutput, parseExportFormat, type ExportableOutput, type ExportFormat } from "../exporters.js";
+import { assertPublicUrl } from "../fetcher.js";
+import { cancelJob, createJob, getJob, listJobs } from "../jobs.js";
+import { createUsageMeter } from "../llm.js";
+import { runWorkflow, type WorkflowEvent } from "../main.js";
+import {
+  createSearch,
+  deleteSearch,
+  getSearch,
+  listSearches,
+  runSavedSearch,
+  startScheduler,
+  validateSchedule,
+} from "../searches.js";
+import { createSession, deleteSession, getSession, sendSessionMessage } from "../sessions.js";
+import { getListingHistory, getStoredListing, listStoredListings, markDelisted } from "../store.js";
 
 type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
 
 type RequestBody = {
   input_as_text?: JsonValue;
   input_variables?: Record<string, JsonValue>;
+  format?: JsonValue;
 };
 
-const server = createServer((req, res) => {
-  if (!req.url) {
-    res.writeHead(400, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Invalid request" }));
-    return;
-  }
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
 
-  if (req.method === "GET" && req.url === "/") {
-    res.writeHead(200, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ ok: true, service: "listing-finder-agent" }));
-    return;
-  }
+function sendExport(res: ServerResponse, output: ExportableOutput, format: Exclude<ExportFormat, "json">) {
+  const document = exportOutput(output, format);
+  res.writeHead(200, {
+    "Content-Type": document.contentType,
+    "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${document.filename}"`,
+  });
+  res.end(document.body);
+}
 
-  if (req.method === "POST" && req.url === "/runWorkflow") {
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve) => {
     const chunks: string[] = [];
     let total = 0;
     req
@@ -34,36 +53,436 @@ const server = createServer((req, res) => {
           chunks.push(piece);
         }
       })
-      .on("end", async () => {
-        try {
-          const bodyRaw = chunks.join("") || "{}";
-          const body = JSON.parse(bodyRaw) as RequestBody;
-          if (typeof body.input_as_text !== "string" || !body.input_as_text.trim()) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "input_as_text (string) is required" }));
-            return;
-          }
-
-          const data = await runWorkflow({
-            input_as_text: body.input_as_text,
-            input_variables: body.input_variables as Record<string, unknown> | undefined,
-          });
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(data));
-        } catch (error: any) {
-          console.error(error);
-          res.writeHead(500, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ error: String(error?.message ?? error) }));
+      .on("end", () => resolve(chunks.join("") || "{}"));
+  });
+}
+
+function wantsEventStream(req: IncomingMessage) {
+  const accept = req.headers?.accept;
+  const value = Array.isArray(accept) ? accept.join(",") : accept ?? "";
+  return value.includes("text/event-stream");
+}
+
+function writeEvent(res: ServerResponse, event: WorkflowEvent | { type: "error"; error: string }) {
+  if (res.writableEnded) return;
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+async function handleRunWorkflow(res: ServerResponse, body: RequestBody, format: ExportFormat, client: ApiClient | null) {
+  // Charged in `finally` so a run that throws still counts its tokens.
+  const meter = createUsageMeter();
+  let data: Awaited<ReturnType<typeof runWorkflow>>;
+  try {
+    data = await runWorkflow(
+      {
+        input_as_text: body.input_as_text as string,
+        input_variables: body.input_variables as Record<string, unknown> | undefined,
+      },
+      { onUsage: meter.add },
+    );
+  } finally {
+    await recordClientUsage(client, meter.total());
+  }
+  // Guardrail failures have no listings to export and stay JSON.
+  if (format !== "json" && "output_parsed" in data) {
+    sendExport(res, data.output_parsed, format);
+    return;
+  }
+  sendJson(res, 200, data);
+}
+
+async function handleRunWorkflowStream(res: ServerResponse, body: RequestBody, client: ApiClient | null) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(": keep-alive\n\n");
+  }, 15000);
+  // The request's own "close" fires once its body is read; the response's
+  // fires when the connection goes away, which is what stops the run.
+  const controller = new AbortController();
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) controller.abort(new Error("Client disconnected"));
+  });
+
+  const meter = createUsageMeter();
+  try {
+    await runWorkflow(
+      {
+        input_as_text: body.input_as_text as string,
+        input_variables: body.input_variables as Record<string, unknown> | undefined,
+      },
+      { onEvent: (event) => writeEvent(res, event), signal: controller.signal, onUsage: meter.add },
+    );
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      console.error(error);
+      writeEvent(res, { type: "error", error: String(error?.message ?? error) });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+    // Disconnected and failed runs are charged for what they spent too.
+    await recordClientUsage(client, meter.total()).catch((error) => console.error(error));
+  }
+}
+
+async function handleListings(res: ServerResponse, method: string, url: URL) {
+  const [, , rawId, action] = url.pathname.split("/");
+  const id = rawId ? decodeURIComponent(rawId) : null;
+
+  if (method === "GET" && !id) {
+    const includeDelisted = url.searchParams.get("delisted") === "true";
+    const format = parseExportFormat(url.searchParams.get("format"));
+    if (!format) {
+      sendJson(res, 400, { error: "format must be one of json, csv, geojson, html" });
+      return;
+    }
+    const listings = await listStoredListings({ includeDelisted });
+    if (format !== "json") {
+      sendExport(res, { title: "Saved listings • Inscriptions enregistrées", listings: listings.map((record) => record.listing) }, format);
+      return;
+    }
+    sendJson(res, 200, { count: listings.length, listings });
+    return;
+  }
+
+  if (method === "GET" && id && !action) {
+    const record = await getStoredListing(id);
+    if (record) sendJson(res, 200, record);
+    else sendJson(res, 404, { error: "Listing not found" });
+    return;
+  }
+
+  if (method === "GET" && id && action === "history") {
+    const history = await getListingHistory(id);
+    if (history) sendJson(res, 200, history);
+    else sendJson(res, 404, { error: "Listing not found" });
+    return;
+  }
+
+  if (method === "POST" && id && action === "delist") {
+    const record = await markDelisted(id);
+    if (record) sendJson(res, 200, record);
+    else sendJson(res, 404, { error: "Listing not found" });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+}
+
+// Saved searches are returned without their listing snapshot to keep
+// responses small; the snapshot is internal diffing state.
+function publicSearch<T extends { snapshot?: unknown }>(search: T) {
+  const { snapshot, ...rest } = search;
+  return { ...rest, listingCount: snapshot ? Object.keys(snapshot).length : 0 };
+}
+
+async function handleSearches(req: IncomingMessage, res: ServerResponse, method: string, url: URL, client: ApiClient | null) {
+  const [, , rawId, action] = url.pathname.split("/");
+  const id = rawId ? decodeURIComponent(rawId) : null;
+
+  if (method === "POST" && !id) {
+    const body = JSON.parse(await readBody(req)) as Record<string, any>;
+    if (typeof body.input_as_text !== "string" || !body.input_as_text.trim()) {
+      sendJson(res, 400, { error: "input_as_text (string) is required" });
+      return;
+    }
+    const schedule = validateSchedule(body.schedule);
+    if (typeof schedule === "string") {
+      sendJson(res, 400, { error: schedule });
+      return;
+    }
+    if (body.webhookUrl != null) {
+      try {
+        await assertPublicUrl(String(body.webhookUrl));
+      } catch (error: any) {
+        sendJson(res, 400, { error: `webhookUrl is not allowed: ${String(error?.message || error)}` });
+        return;
+      }
+    }
+    const search = await createSearch({
+      name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : body.input_as_text.trim(),
+      input_as_text: body.input_as_text,
+      input_variables: body.input_variables && typeof body.input_variables === "object" ? body.input_variables : {},
+      schedule,
+      webhookUrl: body.webhookUrl ? String(body.webhookUrl) : null,
+      client,
+    });
+    sendJson(res, 201, publicSearch(search));
+    return;
+  }
+
+  if (method === "GET" && !id) {
+    const searches = await listSearches(client);
+    sendJson(res, 200, { count: searches.length, searches: searches.map(publicSearch) });
+    return;
+  }
+
+  if (method === "GET" && id && !action) {
+    const search = await getSearch(id, client);
+    if (search) sendJson(res, 200, publicSearch(search));
+    else sendJson(res, 404, { error: "Search not found" });
+    return;
+  }
+
+  if (method === "DELETE" && id && !action) {
+    if (await deleteSearch(id, client)) sendJson(res, 200, { deleted: true, id });
+    else sendJson(res, 404, { error: "Search not found" });
+    return;
+  }
+
+  if (method === "POST" && id && action === "run") {
+    const outcome = (await getSearch(id, client)) ? await runSavedSearch(id) : null;
+    if (outcome) await recordClientUsage(client, outcome.usage);
+    if (outcome) sendJson(res, 200, { search: publicSearch(outcome.search), alert: outcome.alert });
+    else sendJson(res, 404, { error: "Search not found" });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+}
+
+async function handleJobs(req: IncomingMessage, res: ServerResponse, method: string, url: URL, client: ApiClient | null) {
+  const [, , rawId, action] = url.pathname.split("/");
+  const id = rawId ? decodeURIComponent(rawId) : null;
+  if (action) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  if (method === "POST" && !id) {
+    const body = JSON.parse(await readBody(req)) as Record<string, any>;
+    if (typeof body.input_as_text !== "string" || !body.input_as_text.trim()) {
+      sendJson(res, 400, { error: "input_as_text (string) is required" });
+      return;
+    }
+    if (body.callbackUrl != null) {
+      try {
+        await assertPublicUrl(String(body.callbackUrl));
+      } catch (error: any) {
+        sendJson(res, 400, { error: `callbackUrl is not allowed: ${String(error?.message || error)}` });
+        return;
+      }
+    }
+    const job = createJob({
+      input_as_text: body.input_as_text,
+      input_variables: body.input_variables && typeof body.input_variables === "object" ? body.input_variables : {},
+      callbackUrl: body.callbackUrl ? String(body.callbackUrl) : null,
+      client,
+    });
+    if (!job) {
+      sendJson(res, 503, { error: "Job queue is full; try again later" }, { "Retry-After": "30" });
+      return;
+    }
+    sendJson(res, 202, { id: job.id, status: job.status, createdAt: job.createdAt }, { Location: `/jobs/${job.id}` });
+    return;
+  }
+
+  if (method === "GET" && !id) {
+    const jobs = listJobs(client);
+    sendJson(res, 200, { count: jobs.length, jobs });
+    return;
+  }
+
+  if (method === "GET" && id) {
+    const job = getJob(id, client);
+    if (job) sendJson(res, 200, job);
+    else sendJson(res, 404, { error: "Job not found" });
+    return;
+  }
+
+  if (method === "DELETE" && id) {
+    const outcome = cancelJob(id, client);
+    if (outcome) sendJson(res, 200, outcome);
+    else sendJson(res, 404, { error: "Job not found" });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+}
+
+async function handleSessions(req: IncomingMessage, res: ServerResponse, method: string, url: URL, client: ApiClient | null) {
+  const [, , rawId, action] = url.pathname.split("/");
+  const id = rawId ? decodeURIComponent(rawId) : null;
+
+  if (method === "POST" && !id) {
+    const body = JSON.parse(await readBody(req)) as Record<string, any>;
+    if (body.input_as_text != null && typeof body.input_as_text !== "string") {
+      sendJson(res, 400, { error: "input_as_text must be a string" });
+      return;
+    }
+    const { session, reply } = await createSession({
+      input_as_text: body.input_as_text,
+      input_variables: body.input_variables && typeof body.input_variables === "object" ? body.input_variables : {},
+      client,
+    });
+    sendJson(res, 201, reply ?? { session });
+    return;
+  }
+
+  if (method === "GET" && id && !action) {
+    const session = await getSession(id, client);
+    if (session) sendJson(res, 200, session);
+    else sendJson(res, 404, { error: "Session not found or expired" });
+    return;
+  }
+
+  if (method === "DELETE" && id && !action) {
+    if (await deleteSession(id, client)) sendJson(res, 200, { deleted: true, id });
+    else sendJson(res, 404, { error: "Session not found or expired" });
+    return;
+  }
+
+  if (method === "POST" && id && action === "messages") {
+    const body = JSON.parse(await readBody(req)) as Record<string, any>;
+    const message = body.message ?? body.input_as_text;
+    if (typeof message !== "string" || !message.trim()) {
+      sendJson(res, 400, { error: "message (string) is required" });
+      return;
+    }
+    const reply = await sendSessionMessage(id, message, { client });
+    if (reply === "busy") sendJson(res, 409, { error: "Session is still answering a previous message" });
+    else if (reply) sendJson(res, 200, reply);
+    else sendJson(res, 404, { error: "Session not found or expired" });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+}
+
+async function handleUsage(res: ServerResponse, client: ApiClient | null) {
+  if (!client) {
+    sendJson(res, 404, { error: "Usage is only tracked when authentication is enabled" });
+    return;
+  }
+  sendJson(res, 200, await getClientUsage(client));
+}
+
+// Routes that run the agent and count against the client's token budget.
+function spendsTokens(method: string, url: URL) {
+  if (method !== "POST") return false;
+  return (
+    url.pathname.startsWith("/runWorkflow") ||
+    url.pathname === "/jobs" ||
+    url.pathname === "/sessions" ||
+    /^\/(searches\/[^/]+\/run|sessions\/[^/]+\/messages)$/.test(url.pathname)
+  );
+}
+
+function route(req: IncomingMessage, res: ServerResponse, url: URL, client: ApiClient | null) {
+  if (url.pathname === "/listings" || url.pathname.startsWith("/listings/")) {
+    handleListings(res, req.method ?? "GET", url).catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
+    return;
+  }
+
+  if (url.pathname === "/searches" || url.pathname.startsWith("/searches/")) {
+    handleSearches(req, res, req.method ?? "GET", url, client).catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
+    return;
+  }
+
+  if (url.pathname === "/jobs" || url.pathname.startsWith("/jobs/")) {
+    handleJobs(req, res, req.method ?? "GET", url, client).catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
+    return;
+  }
+
+  if (url.pathname === "/sessions" || url.pathname.startsWith("/sessions/")) {
+    handleSessions(req, res, req.method ?? "GET", url, client).catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
+    return;
+  }
+
+  if (req.method === "GET" && url.pathname === "/usage") {
+    handleUsage(res, client).catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
+    return;
+  }
+
+  if (req.method === "POST" && (url.pathname === "/runWorkflow" || url.pathname === "/runWorkflow/stream")) {
+    const stream = url.pathname === "/runWorkflow/stream" || wantsEventStream(req);
+    readBody(req).then(async (bodyRaw) => {
+      try {
+        const body = JSON.parse(bodyRaw) as RequestBody;
+        if (typeof body.input_as_text !== "string" || !body.input_as_text.trim()) {
+          sendJson(res, 400, { error: "input_as_text (string) is required" });
+          return;
+        }
+        const format = parseExportFormat(url.searchParams.get("format") ?? body.format);
+        if (!format) {
+          sendJson(res, 400, { error: "format must be one of json, csv, geojson, html" });
+          return;
         }
-      });
+        if (stream && format !== "json") {
+          sendJson(res, 400, { error: "format is not supported with streaming" });
+          return;
+        }
+
+        if (stream) {
+          await handleRunWorkflowStream(res, body, client);
+        } else {
+          await handleRunWorkflow(res, body, format, client);
+        }
+      } catch (error: any) {
+        console.error(error);
+        sendJson(res, 500, { error: String(error?.message ?? error) });
+      }
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: "Not found" });
+}
+
+const server = createServer((req, res) => {
+  if (!req.url) {
+    sendJson(res, 400, { error: "Invalid request" });
+    return;
+  }
+
+  const url = new URL(req.url, "http://localhost");
+  // The health check stays open so the host's probes don't need a key.
+  if (req.method === "GET" && url.pathname === "/") {
+    sendJson(res, 200, { ok: true, service: "listing-finder-agent" });
     return;
   }
 
-  res.writeHead(404, { "Content-Type": "application/json" });
-  res.end(JSON.stringify({ error: "Not found" }));
+  const method = req.method ?? "GET";
+  authenticateRequest(req.headers, { spendsTokens: spendsTokens(method, url) })
+    .then((auth) => {
+      if ("error" in auth) {
+        const headers: Record<string, string> = {};
+        if (auth.status === 401) headers["WWW-Authenticate"] = 'Bearer realm="listing-finder"';
+        if (auth.retryAfterSeconds) headers["Retry-After"] = String(auth.retryAfterSeconds);
+        sendJson(res, auth.status, { error: auth.error }, headers);
+        return;
+      }
+      route(req, res, url, auth.client);
+    })
+    .catch((error: any) => {
+      console.error(error);
+      sendJson(res, 500, { error: String(error?.message ?? error) });
+    });
 });
 
 const PORT = Number(process.env.PORT ?? 3000);
 server.listen(PORT, () => {
   console.log(`Listing Finder listening on :${PORT}`);
+  if (process.env.LISTING_SCHEDULER_DISABLED !== "true") startScheduler();
 });
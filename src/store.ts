@@ -0,0 +1,134 @@
+import { createJsonFileStore } from "./jsonFile.js";
+import type { NormalizedListing } from "./main.js";
+
+const STORE_PATH = process.env.LISTING_STORE_PATH || "data/listings.json";
+const MLS_NOT_FOUND = "MLS non trouvé / MLS not found";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PricePoint = {
+  price: number;
+  seenAt: string;
+};
+
+export type StoredListing = {
+  key: string;
+  listing: NormalizedListing;
+  firstSeen: string;
+  lastSeen: string;
+  priceHistory: PricePoint[];
+  delisted: boolean;
+  delistedAt: string | null;
+};
+
+type StoreFile = {
+  version: 1;
+  listings: Record<string, StoredListing>;
+};
+
+const file = createJsonFileStore<StoreFile>(
+  STORE_PATH,
+  () => ({ version: 1, listings: {} }),
+  (data) => Boolean(data?.listings),
+);
+
+// Same keys as normalizeAndDedupeListings: MLS first, URL otherwise.
+export function listingStoreKey(listing: Pick<NormalizedListing, "mls" | "url">) {
+  if (listing.mls && listing.mls !== MLS_NOT_FOUND) return `MLS:${listing.mls.toUpperCase()}`;
+  if (listing.url) return `URL:${listing.url}`;
+  return null;
+}
+
+/** Upserts listings seen in a workflow run, tracking first/last seen and price changes. */
+export function recordListings(listings: NormalizedListing[], seenAt = new Date()) {
+  return file.update((store) => {
+    const timestamp = seenAt.toISOString();
+    for (const listing of listings) {
+      const key = listingStoreKey(listing);
+      if (!key) continue;
+
+      const prior = store.listings[key];
+      const priceHistory = prior?.priceHistory ?? [];
+      const lastPrice = priceHistory[priceHistory.length - 1]?.price;
+      if (listing.price != null && listing.price !== lastPrice) {
+        priceHistory.push({ price: listing.price, seenAt: timestamp });
+      }
+
+      store.listings[key] = {
+        key,
+        listing: prior ? { ...prior.listing, ...withoutNulls(listing) } : listing,
+        firstSeen: prior?.firstSeen ?? timestamp,
+        lastSeen: timestamp,
+        priceHistory,
+        delisted: false,
+        delistedAt: null,
+      };
+    }
+  });
+}
+
+function withoutNulls(listing: NormalizedListing): Partial<NormalizedListing> {
+  return Object.fromEntries(Object.entries(listing).filter(([, value]) => value != null)) as Partial<NormalizedListing>;
+}
+
+function findRecord(store: StoreFile, id: string) {
+  return (
+    store.listings[`MLS:${id.toUpperCase()}`] ??
+    store.listings[id] ??
+    Object.values(store.listings).find((record) => record.listing.url === id) ??
+    null
+  );
+}
+
+export function listStoredListings(options: { includeDelisted?: boolean } = {}) {
+  return file.read((store) =>
+    Object.values(store.listings)
+      .filter((record) => options.includeDelisted || !record.delisted)
+      .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen)),
+  );
+}
+
+export function getStoredListing(id: string) {
+  return file.read((store) => findRecord(store, id));
+}
+
+export function markDelisted(id: string, at = new Date()) {
+  return file.update((store) => {
+    const record = findRecord(store, id);
+    if (!record) return null;
+    record.delisted = true;
+    record.delistedAt = at.toISOString();
+    return record;
+  });
+}
+
+/** Price history plus derived market stats for one stored listing. */
+export async function getListingHistory(id: string, now = new Date()) {
+  const record = await getStoredListing(id);
+  if (!record) return null;
+
+  const prices = record.priceHistory.map((point) => point.price);
+  const changes = record.priceHistory.slice(1).map((point, i) => ({
+    from: record.priceHistory[i].price,
+    to: point.price,
+    change: point.price - record.priceHistory[i].price,
+    seenAt: point.seenAt,
+  }));
+  const end = record.delistedAt ? new Date(record.delistedAt) : now;
+
+  return {
+    key: record.key,
+    mls: record.listing.mls,
+    url: record.listing.url,
+    firstSeen: record.firstSeen,
+    lastSeen: record.lastSeen,
+    delisted: record.delisted,
+    delistedAt: record.delistedAt,
+    daysOnMarket: Math.max(0, Math.floor((end.getTime() - new Date(record.firstSeen).getTime()) / DAY_MS)),
+    originalPrice: prices[0] ?? null,
+    currentPrice: prices[prices.length - 1] ?? null,
+    totalChange: prices.length > 1 ? prices[prices.length - 1] - prices[0] : 0,
+    priceDrops: changes.filter((change) => change.change < 0).length,
+    priceChanges: changes,
+    priceHistory: record.priceHistory,
+  };
+}
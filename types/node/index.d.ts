@@ -15,20 +15,50 @@ declare module 'http' {
   export interface IncomingMessage {
     method?: string;
     url?: string;
+    headers: Record<string, string | string[] | undefined>;
     on(event: 'data', listener: (chunk: any) => void): IncomingMessage;
     on(event: 'end', listener: () => void): IncomingMessage;
+    on(event: 'close', listener: () => void): IncomingMessage;
     destroy(): void;
+    statusCode?: number;
+    statusMessage?: string;
+    resume(): IncomingMessage;
   }
 
+  export type LookupFunction = (
+    hostname: string,
+    options: { all?: boolean; family?: number },
+    callback: (error: Error | null, address: string | Array<{ address: string; family: number }>, family?: number) => void,
+  ) => void;
+
+  export interface RequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    lookup?: LookupFunction;
+  }
+
+  export interface ClientRequest {
+    on(event: 'error', listener: (error: Error) => void): ClientRequest;
+    end(body?: string): void;
+  }
+
+  export function request(url: URL, options: RequestOptions, callback?: (res: IncomingMessage) => void): ClientRequest;
+
   export interface ServerResponse {
     writeHead(statusCode: number, headers: Record<string, string>): void;
+    write(chunk: any): boolean;
     end(body?: any): void;
+    on(event: 'close', listener: () => void): ServerResponse;
+    writableEnded: boolean;
   }
 
   export type RequestListener = (req: IncomingMessage, res: ServerResponse) => void;
 
   export interface Server {
     listen(port: number, callback?: () => void): void;
+    address(): { port: number } | string | null;
+    close(callback?: () => void): void;
   }
 
   export function createServer(listener: RequestListener): Server;
@@ -38,3 +68,68 @@ declare module 'http' {
   };
   export default _default;
 }
+
+declare module 'https' {
+  import type { ClientRequest, IncomingMessage, RequestOptions } from 'http';
+  export function request(url: URL, options: RequestOptions, callback?: (res: IncomingMessage) => void): ClientRequest;
+}
+
+declare module 'stream' {
+  export const Readable: {
+    toWeb(stream: unknown): ReadableStream<Uint8Array>;
+  };
+}
+
+declare module 'fs/promises' {
+  export function readFile(path: string, encoding: 'utf8'): Promise<string>;
+  export function writeFile(path: string, data: string, encoding?: 'utf8'): Promise<void>;
+  export function appendFile(path: string, data: string, encoding?: 'utf8'): Promise<void>;
+  export function rename(oldPath: string, newPath: string): Promise<void>;
+  export function mkdir(path: string, options?: { recursive?: boolean }): Promise<string | undefined>;
+}
+
+declare module 'path' {
+  export function dirname(path: string): string;
+  export function join(...paths: string[]): string;
+  export function resolve(...paths: string[]): string;
+}
+
+declare module 'dns/promises' {
+  export interface LookupAddress {
+    address: string;
+    family: number;
+  }
+  export function lookup(hostname: string, options: { all: true }): Promise<LookupAddress[]>;
+}
+
+declare module 'node:test' {
+  type TestFn = () => void | Promise<void>;
+  export function test(name: string, fn: TestFn): Promise<void>;
+  export function describe(name: string, fn: () => void): void;
+  export function it(name: string, fn: TestFn): void;
+  export function before(fn: TestFn): void;
+  export function after(fn: TestFn): void;
+  export default test;
+}
+
+declare module 'node:assert/strict' {
+  export function ok(value: unknown, message?: string): asserts value;
+  export function equal(actual: unknown, expected: unknown, message?: string): void;
+  export function notEqual(actual: unknown, expected: unknown, message?: string): void;
+  export function deepEqual(actual: unknown, expected: unknown, message?: string): void;
+  export function match(value: string, pattern: RegExp, message?: string): void;
+  export function doesNotMatch(value: string, pattern: RegExp, message?: string): void;
+  export function rejects(block: Promise<unknown> | (() => Promise<unknown>), error?: RegExp, message?: string): Promise<void>;
+  export function throws(block: () => unknown, error?: RegExp, message?: string): void;
+  const assert: {
+    ok: typeof ok;
+    equal: typeof equal;
+    notEqual: typeof notEqual;
+    deepEqual: typeof deepEqual;
+    match: typeof match;
+    doesNotMatch: typeof doesNotMatch;
+    rejects: typeof rejects;
+    throws: typeof throws;
+  };
+  export default assert;
+}